@@ -0,0 +1,38 @@
+import { createDevToken, DEV_TOKEN_TTL_MS, findDevUser } from "@/lib/dev-auth";
+import {
+  mockDisabledResponse,
+  mockError,
+  runScenario,
+} from "@/lib/mock-backend";
+import type { LoginResponse } from "@/services/api";
+
+// Signs in the dev accounts, for the backend auth provider
+export async function POST(request: Request) {
+  const disabled = mockDisabledResponse();
+  if (disabled) return disabled;
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.email !== "string" || typeof body?.password !== "string") {
+    return mockError(422, [
+      {
+        loc: ["body"],
+        msg: "email and password are required",
+        type: "missing",
+      },
+    ]);
+  }
+
+  await runScenario(null, request.signal);
+  const user = findDevUser(body.email, body.password);
+  if (!user) {
+    return mockError(401, "Incorrect email or password");
+  }
+
+  const response: LoginResponse = {
+    access_token: createDevToken(user, Date.now() + DEV_TOKEN_TTL_MS),
+    token_type: "bearer",
+    expires_in: DEV_TOKEN_TTL_MS / 1000,
+    user,
+  };
+  return Response.json(response);
+}
@@ -0,0 +1,37 @@
+import {
+  fileNotFound,
+  getMockFile,
+  mockChatResponse,
+  mockDisabledResponse,
+  mockError,
+  readScenario,
+  requestOwner,
+  runScenario,
+} from "@/lib/mock-backend";
+
+export async function POST(request: Request) {
+  const disabled = mockDisabledResponse();
+  if (disabled) return disabled;
+
+  const owner = requestOwner(request);
+  if (owner instanceof Response) return owner;
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.file_id !== "string" || typeof body?.message !== "string") {
+    return mockError(422, [
+      {
+        loc: ["body"],
+        msg: "file_id and message are required",
+        type: "missing",
+      },
+    ]);
+  }
+
+  const failure = await runScenario(readScenario(body.message), request.signal);
+  if (failure) return failure;
+
+  const file = getMockFile(body.file_id, owner);
+  if (!file) return fileNotFound(body.file_id);
+
+  return Response.json(mockChatResponse(file, body.message));
+}
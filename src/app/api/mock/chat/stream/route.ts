@@ -0,0 +1,75 @@
+import {
+  fileNotFound,
+  getMockFile,
+  mockChatResponse,
+  mockDisabledResponse,
+  mockError,
+  readScenario,
+  requestOwner,
+  runScenario,
+} from "@/lib/mock-backend";
+
+// Pace of the streamed answer
+const WORDS_PER_EVENT = 3;
+const EVENT_INTERVAL_MS = 30;
+
+// Streams the same answer as /chat/ as server-sent events
+export async function POST(request: Request) {
+  const disabled = mockDisabledResponse();
+  if (disabled) return disabled;
+
+  const owner = requestOwner(request);
+  if (owner instanceof Response) return owner;
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.file_id !== "string" || typeof body?.message !== "string") {
+    return mockError(422, [
+      {
+        loc: ["body"],
+        msg: "file_id and message are required",
+        type: "missing",
+      },
+    ]);
+  }
+
+  const failure = await runScenario(readScenario(body.message), request.signal);
+  if (failure) return failure;
+
+  const file = getMockFile(body.file_id, owner);
+  if (!file) return fileNotFound(body.file_id);
+
+  const { analysis } = mockChatResponse(file, body.message);
+  // Split after whitespace so the tokens join back into the exact answer
+  const words = analysis.match(/\S+\s*|\s+/g) ?? [];
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let index = 0;
+      timer = setInterval(() => {
+        if (index >= words.length) {
+          clearInterval(timer);
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+          return;
+        }
+        const token = words.slice(index, index + WORDS_PER_EVENT).join("");
+        index += WORDS_PER_EVENT;
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify({ token })}\n\n`)
+        );
+      }, EVENT_INTERVAL_MS);
+    },
+    cancel() {
+      clearInterval(timer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
@@ -0,0 +1,26 @@
+import {
+  fileNotFound,
+  getMockFile,
+  mockConversation,
+  mockDisabledResponse,
+  requestOwner,
+  runScenario,
+} from "@/lib/mock-backend";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  const disabled = mockDisabledResponse();
+  if (disabled) return disabled;
+
+  const owner = requestOwner(request);
+  if (owner instanceof Response) return owner;
+
+  const { fileId } = await params;
+  await runScenario(null, request.signal);
+  const file = getMockFile(fileId, owner);
+  if (!file) return fileNotFound(fileId);
+
+  return Response.json(mockConversation(file));
+}
@@ -0,0 +1,9 @@
+import { mockDisabledResponse } from "@/lib/mock-backend";
+
+// Root endpoint, used by the API connection test
+export async function GET() {
+  return (
+    mockDisabledResponse() ??
+    Response.json({ message: "Mock API is running", mock: true })
+  );
+}
@@ -0,0 +1,27 @@
+import {
+  fileNotFound,
+  getMockFile,
+  mockDisabledResponse,
+  mockRows,
+  requestOwner,
+  runScenario,
+} from "@/lib/mock-backend";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  const disabled = mockDisabledResponse();
+  if (disabled) return disabled;
+
+  const owner = requestOwner(request);
+  if (owner instanceof Response) return owner;
+
+  const { fileId } = await params;
+  await runScenario(null, request.signal);
+  const file = getMockFile(fileId, owner);
+  if (!file) return fileNotFound(fileId);
+
+  const rows = mockRows(file, new URL(request.url).searchParams);
+  return rows instanceof Response ? rows : Response.json(rows);
+}
@@ -0,0 +1,61 @@
+import {
+  createMockFile,
+  mockDisabledResponse,
+  mockError,
+  readScenario,
+  requestOwner,
+  runScenario,
+} from "@/lib/mock-backend";
+import { datasetFromCsv, sampleDataset } from "@/lib/mock-datasets";
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const SUPPORTED_EXTENSIONS = [".csv", ".xlsx", ".xls"];
+
+export async function POST(request: Request) {
+  const disabled = mockDisabledResponse();
+  if (disabled) return disabled;
+
+  const owner = requestOwner(request);
+  if (owner instanceof Response) return owner;
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) {
+    return mockError(422, [
+      { loc: ["body", "file"], msg: "Field required", type: "missing" },
+    ]);
+  }
+
+  const failure = await runScenario(readScenario(file.name), request.signal);
+  if (failure) return failure;
+
+  const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    return mockError(
+      400,
+      `Unsupported file type "${extension}". Upload a CSV or Excel file.`
+    );
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return mockError(413, "The file is larger than the 10 MB upload limit");
+  }
+
+  // Excel files aren't parsed here - each sheet asked for stands in for a
+  // variation of the sample dataset
+  if (extension !== ".csv") {
+    const sheetName = form?.get("sheet_name");
+    const sheet =
+      typeof sheetName === "string" && sheetName ? sheetName : undefined;
+    return Response.json({
+      ...createMockFile(file.name, sampleDataset(sheet), owner),
+      sheet_name: sheet,
+    });
+  }
+
+  const dataset = datasetFromCsv(await file.text());
+  if (dataset.columns.length === 0) {
+    return mockError(400, "The file has no columns");
+  }
+
+  return Response.json(createMockFile(file.name, dataset, owner));
+}
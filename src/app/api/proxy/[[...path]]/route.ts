@@ -0,0 +1,147 @@
+import {
+  backendUrl,
+  checkRateLimit,
+  clientKey,
+  logProxyRequest,
+  matchProxyRoute,
+  MAX_UPLOAD_BYTES,
+  proxyPath,
+  UPLOAD_TOO_LARGE,
+  validateUpload,
+} from "@/lib/api-proxy";
+
+// Headers passed on to the backend, and back from it
+const FORWARDED_REQUEST_HEADERS = ["accept", "authorization", "content-type"];
+const FORWARDED_RESPONSE_HEADERS = [
+  "cache-control",
+  "content-type",
+  "retry-after",
+];
+// Room for the multipart boundaries and field headers around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+type RouteContext = { params: Promise<{ path?: string[] }> };
+
+async function proxy(request: Request, { params }: RouteContext) {
+  const startedAt = Date.now();
+  const requestId = request.headers.get("x-request-id") || crypto.randomUUID();
+  const client = clientKey(request);
+  const segments = (await params).path ?? [];
+  const path = proxyPath(segments);
+
+  const respond = (
+    status: number,
+    detail: string,
+    headers: Record<string, string> = {}
+  ) => {
+    logProxyRequest({
+      requestId,
+      method: request.method,
+      path: path ?? segments.join("/"),
+      client,
+      status,
+      startedAt,
+      detail,
+    });
+    return Response.json(
+      { detail },
+      { status, headers: { "x-request-id": requestId, ...headers } }
+    );
+  };
+
+  const route =
+    path === null ? undefined : matchProxyRoute(path, request.method);
+  if (!route || path === null) {
+    return respond(404, "Not Found");
+  }
+
+  const retryAfter = checkRateLimit(client);
+  if (retryAfter !== null) {
+    return respond(429, "Too many requests, please slow down", {
+      "retry-after": String(retryAfter),
+    });
+  }
+
+  const headers = new Headers({ "x-request-id": requestId });
+  FORWARDED_REQUEST_HEADERS.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  let body: BodyInit | undefined;
+  if (route.upload) {
+    // The body is read into memory to check it, so its size has to be known
+    // up front - the server reads no more than the declared length
+    const lengthHeader = request.headers.get("content-length");
+    const declaredLength = Number(lengthHeader);
+    if (
+      !lengthHeader ||
+      !Number.isInteger(declaredLength) ||
+      declaredLength < 0
+    ) {
+      return respond(411, "Uploads need a Content-Length header");
+    }
+    if (declaredLength > MAX_UPLOAD_BYTES + MULTIPART_OVERHEAD_BYTES) {
+      return respond(413, UPLOAD_TOO_LARGE);
+    }
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!form || !(file instanceof File)) {
+      return respond(422, 'Upload a file in the "file" field');
+    }
+    const problem = validateUpload(file);
+    if (problem) {
+      return respond(problem === UPLOAD_TOO_LARGE ? 413 : 415, problem);
+    }
+    // fetch writes its own multipart boundary into the content type
+    headers.delete("content-type");
+    body = form;
+  } else if (request.method !== "GET") {
+    body = await request.text();
+  }
+
+  const url = backendUrl(route, path, new URL(request.url).search);
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, {
+      method: request.method,
+      headers,
+      body,
+      signal: request.signal,
+      cache: "no-store",
+    });
+  } catch (error) {
+    if (request.signal.aborted) {
+      return respond(499, "Client closed the request");
+    }
+    return respond(
+      502,
+      `The backend could not be reached: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  logProxyRequest({
+    requestId,
+    method: request.method,
+    path,
+    client,
+    status: upstream.status,
+    startedAt,
+  });
+
+  const responseHeaders = new Headers({
+    "x-request-id": upstream.headers.get("x-request-id") || requestId,
+  });
+  FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+  // The body is passed through as it arrives, so streamed replies stay streamed
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: responseHeaders,
+  });
+}
+
+export const GET = proxy;
+export const POST = proxy;
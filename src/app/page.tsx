@@ -1,5 +1,6 @@
 import { DataAnalysisInterface } from "@/components/data-analysis-interface";
 import { ApiTestComponent } from "@/components/api-test";
+import { AuthGate } from "@/components/auth-gate";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
@@ -22,7 +23,9 @@ export default function Home() {
             <TabsTrigger value="api-test">API Test</TabsTrigger>
           </TabsList>
           <TabsContent value="data-analysis">
-            <DataAnalysisInterface />
+            <AuthGate>
+              <DataAnalysisInterface />
+            </AuthGate>
           </TabsContent>
           <TabsContent value="api-test">
             <div className="max-w-md mx-auto mt-6">
@@ -41,9 +44,13 @@ export default function Home() {
                   <div>
                     <h3 className="font-medium">API Endpoints:</h3>
                     <ul className="list-disc pl-5 mt-2">
-                      <li><code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">/upload/file/</code> - Upload Excel files</li>
+                      <li><code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">/auth/login</code> - Exchange an email and password for an access token</li>
+                      <li><code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">/upload/file/</code> - Upload Excel or CSV files, with an optional <code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">sheet_name</code> for workbooks</li>
                       <li><code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">/chat/</code> - Chat with AI about data</li>
+                      <li><code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">/chat/stream/</code> - Stream chat responses (optional)</li>
                       <li><code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">/conversations/{"{file_id}"}</code> - Get conversation history</li>
+                      <li><code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">/rows/{"{file_id}"}</code> - Get a sorted, filtered page of rows</li>
+                      <li><code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">/profile/{"{file_id}"}</code> - Get column profiles for the whole dataset</li>
                     </ul>
                   </div>
                   <p>Make sure your FastAPI server is running and accessible at the specified URL.</p>
@@ -1,32 +1,34 @@
 "use client";
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { Input } from '@/components/ui/input';
+import { checkApiConnection, getApiBaseUrl, getDefaultApiBaseUrl, setApiBaseUrl } from '@/services/api';
 
 export function ApiTestComponent() {
-  const [apiUrl, setApiUrl] = useState('http://52.230.98.48');
+  const [apiUrl, setApiUrl] = useState('');
+  const [savedUrl, setSavedUrl] = useState('');
   const [status, setStatus] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  // Load the configured URL on the client (it may come from localStorage)
+  useEffect(() => {
+    const current = getApiBaseUrl();
+    setApiUrl(current);
+    setSavedUrl(current);
+  }, []);
+
   const testApiConnection = async () => {
     setIsLoading(true);
     setStatus(null);
-    
+
     try {
       // Try to connect to the API
-      const response = await fetch(`${apiUrl}/`);
-      
-      if (response.ok) {
-        const data = await response.json();
-        setStatus(`Connected successfully! API responded with: ${JSON.stringify(data)}`);
-        toast.success('API connection successful!');
-      } else {
-        setStatus(`Connection failed with status: ${response.status}`);
-        toast.error('API connection failed');
-      }
+      const data = await checkApiConnection(apiUrl);
+      setStatus(`Connected successfully! API responded with: ${JSON.stringify(data)}`);
+      toast.success('API connection successful!');
     } catch (error) {
       setStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
       toast.error('API connection failed');
@@ -35,28 +37,59 @@ export function ApiTestComponent() {
     }
   };
 
+  const saveApiUrl = () => {
+    setApiBaseUrl(apiUrl === getDefaultApiBaseUrl() ? null : apiUrl);
+    const current = getApiBaseUrl();
+    setApiUrl(current);
+    setSavedUrl(current);
+    toast.success(`API URL saved: ${current}`);
+  };
+
+  const resetApiUrl = () => {
+    setApiBaseUrl(null);
+    const current = getApiBaseUrl();
+    setApiUrl(current);
+    setSavedUrl(current);
+    setStatus(null);
+    toast.success('API URL reset to default');
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>API Connection Test</CardTitle>
         <CardDescription>
-          Test the connection to your FastAPI backend
+          Test the connection to your FastAPI backend and choose which server the app uses
         </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="flex flex-col gap-4">
           <div className="flex items-center gap-2">
-            <Input 
-              value={apiUrl} 
-              onChange={(e) => setApiUrl(e.target.value)} 
+            <Input
+              value={apiUrl}
+              onChange={(e) => setApiUrl(e.target.value)}
               placeholder="API URL"
               className="flex-1"
             />
-            <Button onClick={testApiConnection} disabled={isLoading}>
+            <Button onClick={testApiConnection} disabled={isLoading || !apiUrl.trim()}>
               {isLoading ? 'Testing...' : 'Test Connection'}
             </Button>
           </div>
-          
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={saveApiUrl} disabled={!apiUrl.trim() || apiUrl.trim() === savedUrl}>
+              Save
+            </Button>
+            <Button variant="ghost" onClick={resetApiUrl} disabled={savedUrl === getDefaultApiBaseUrl()}>
+              Reset to Default
+            </Button>
+          </div>
+
+          <div className="text-xs text-gray-500 space-y-1">
+            <p>In use: <code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">{savedUrl}</code></p>
+            <p>Default: <code className="bg-gray-100 dark:bg-gray-800 px-1 rounded">{getDefaultApiBaseUrl()}</code> (set with NEXT_PUBLIC_API_BASE_URL, or NEXT_PUBLIC_USE_API_PROXY=true for the same-origin proxy, or NEXT_PUBLIC_USE_MOCK_API=true for the bundled mock backend)</p>
+          </div>
+
           {status && (
             <div className={`p-3 rounded-md text-sm ${status.includes('Error') || status.includes('failed') ? 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300' : 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300'}`}>
               {status}
@@ -0,0 +1,77 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { LoginForm } from '@/components/login-form';
+import { configureApiAuth } from '@/services/api';
+import { AuthSession, getAuthConfig, loadAuthSession, saveAuthSession } from '@/services/auth';
+import { setSessionUser } from '@/services/session-store';
+
+// Shows the sign-in form until there is a session, then the app with the
+// user's token on every API call and their own saved sessions. Without a
+// configured provider the app is shown as is.
+export function AuthGate({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const sessionRef = useRef<AuthSession | null>(null);
+  const { provider, problem } = getAuthConfig();
+
+  const switchSession = useCallback((next: AuthSession | null) => {
+    sessionRef.current = next;
+    saveAuthSession(next);
+    // Scope saved sessions before the workspace mounts and reads them
+    setSessionUser(next?.user.id ?? null);
+    setSession(next);
+  }, []);
+
+  useEffect(() => {
+    if (!provider) return;
+    configureApiAuth({
+      getToken: () => sessionRef.current?.token ?? null,
+      onUnauthorized: () => {
+        // Several requests can fail at once - only send the user back once
+        if (!sessionRef.current) return;
+        switchSession(null);
+        toast.error('Your session has expired. Please sign in again.');
+      },
+    });
+    switchSession(loadAuthSession());
+    setIsRestoring(false);
+    return () => configureApiAuth(null);
+  }, [provider, switchSession]);
+
+  if (problem) {
+    return (
+      <Card className="max-w-md mx-auto mt-6">
+        <CardHeader>
+          <CardTitle>Sign-in is misconfigured</CardTitle>
+          <CardDescription>{problem}</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (!provider) return <>{children}</>;
+
+  if (isRestoring) return null;
+
+  if (!session) {
+    return <LoginForm provider={provider} onSignedIn={switchSession} />;
+  }
+
+  return (
+    <React.Fragment key={session.user.id}>
+      <div className="flex items-center justify-end gap-3 mb-4 text-sm text-gray-600 dark:text-gray-300">
+        <span>
+          Signed in as <span className="font-medium text-gray-900 dark:text-white">{session.user.name}</span>
+        </span>
+        <Button variant="outline" size="sm" onClick={() => switchSession(null)}>
+          Sign out
+        </Button>
+      </div>
+      {children}
+    </React.Fragment>
+  );
+}
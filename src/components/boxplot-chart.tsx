@@ -0,0 +1,191 @@
+"use client";
+
+import React from 'react';
+import { ChartData, ChartDataset, DEFAULT_CHART_COLORS, withAlpha } from '@/lib/chart-data';
+import { BoxSummary, niceTicks } from '@/lib/statistics';
+
+// Layout of the SVG in viewBox units - the SVG scales to fit its container
+const GROUP_WIDTH = 90;
+const PLOT_HEIGHT = 260;
+const LEFT = 56;
+const RIGHT = 16;
+const TITLE_HEIGHT = 28;
+const LEGEND_ROW_HEIGHT = 18;
+const LABEL_CHAR_WIDTH = 6.5;
+const MAX_LABEL_CHARS = 24;
+
+function truncate(label: string) {
+  return label.length > MAX_LABEL_CHARS ? `${label.slice(0, MAX_LABEL_CHARS - 1)}…` : label;
+}
+
+function formatValue(value: number) {
+  if (Number.isInteger(value)) return String(value);
+  return Math.abs(value) < 10 ? value.toFixed(2) : value.toFixed(1);
+}
+
+// Charts saved before box summaries existed only carry one value per label
+function getBoxes(dataset: ChartDataset): Array<BoxSummary | null> {
+  if (dataset.boxes) return dataset.boxes;
+  return (dataset.data as number[]).map((value) =>
+    Number.isFinite(value)
+      ? { min: value, q1: value, median: value, q3: value, max: value, outliers: [] }
+      : null
+  );
+}
+
+function firstColor(color: string | string[] | undefined, fallback: string) {
+  return (Array.isArray(color) ? color[0] : color) ?? fallback;
+}
+
+function boxTooltip(group: string, seriesLabel: string, box: BoxSummary, showSeries: boolean) {
+  return [
+    showSeries ? `${group} – ${seriesLabel}` : group,
+    `Max: ${formatValue(box.max)}`,
+    `Q3: ${formatValue(box.q3)}`,
+    `Median: ${formatValue(box.median)}`,
+    `Q1: ${formatValue(box.q1)}`,
+    `Min: ${formatValue(box.min)}`,
+    ...(box.mean !== undefined ? [`Mean: ${formatValue(box.mean)}`] : []),
+    ...(box.count !== undefined ? [`Count: ${box.count}`] : []),
+    ...(box.outliers.length > 0 ? [`Outliers: ${box.outliers.map(formatValue).join(', ')}`] : []),
+  ].join('\n');
+}
+
+interface BoxPlotChartProps {
+  chart: ChartData;
+}
+
+export function BoxPlotChart({ chart }: BoxPlotChartProps) {
+  const series = chart.datasets.map((dataset, index) => {
+    const fallback = DEFAULT_CHART_COLORS[index % DEFAULT_CHART_COLORS.length];
+    const stroke = firstColor(dataset.borderColor, fallback);
+    return {
+      label: dataset.label,
+      boxes: getBoxes(dataset),
+      stroke,
+      fill: firstColor(dataset.backgroundColor, withAlpha(stroke, 0.4)),
+    };
+  });
+
+  const allValues = series.flatMap(({ boxes }) =>
+    boxes.flatMap((box) => (box ? [box.min, box.max, ...box.outliers] : []))
+  );
+  if (allValues.length === 0) {
+    return <p className="text-sm text-gray-500">No values to display</p>;
+  }
+
+  const ticks = niceTicks(Math.min(...allValues), Math.max(...allValues));
+  const axisMin = ticks[0];
+  const axisMax = ticks[ticks.length - 1];
+  const scaleY = (value: number) =>
+    TITLE_HEIGHT + PLOT_HEIGHT - ((value - axisMin) / (axisMax - axisMin || 1)) * PLOT_HEIGHT;
+
+  const showLegend = series.length > 1;
+  const groupWidth = Math.max(GROUP_WIDTH, series.length * 28);
+  const slotWidth = (groupWidth * 0.8) / series.length;
+  const boxWidth = Math.min(slotWidth * 0.8, 48);
+
+  const rotateXLabels = chart.labels.some((label) => label.length * LABEL_CHAR_WIDTH > groupWidth - 4);
+  const longestX = Math.max(...chart.labels.map((label) => truncate(label).length), 1);
+  const plotBottom = TITLE_HEIGHT + PLOT_HEIGHT;
+  const xLabelsHeight = rotateXLabels ? longestX * LABEL_CHAR_WIDTH * 0.75 + 16 : 24;
+  const legendTop = plotBottom + xLabelsHeight + 8;
+  const width = LEFT + chart.labels.length * groupWidth + RIGHT;
+  const height = legendTop + (showLegend ? series.length * LEGEND_ROW_HEIGHT : 0);
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${width} ${height}`}
+      width="100%"
+      height="100%"
+      preserveAspectRatio="xMidYMid meet"
+      fontFamily="ui-sans-serif, system-ui, sans-serif"
+      role="img"
+      aria-label={chart.title}
+    >
+      <text x={width / 2} y={18} textAnchor="middle" fontSize={13} fontWeight={600} fill="#374151">
+        {chart.title}
+      </text>
+
+      {/* Value axis with gridlines */}
+      {ticks.map((tick) => (
+        <g key={`tick-${tick}`}>
+          <line x1={LEFT} x2={width - RIGHT} y1={scaleY(tick)} y2={scaleY(tick)} stroke="#e5e7eb" />
+          <text x={LEFT - 6} y={scaleY(tick)} textAnchor="end" dominantBaseline="central" fontSize={11} fill="#4b5563">
+            {formatValue(tick)}
+          </text>
+        </g>
+      ))}
+      <line x1={LEFT} x2={LEFT} y1={TITLE_HEIGHT} y2={plotBottom} stroke="#9ca3af" />
+
+      {chart.labels.map((group, groupIndex) =>
+        series.map(({ label, boxes, stroke, fill }, seriesIndex) => {
+          const box = boxes[groupIndex];
+          if (!box) return null;
+          const center =
+            LEFT + groupIndex * groupWidth + groupWidth * 0.1 + slotWidth * seriesIndex + slotWidth / 2;
+          const left = center - boxWidth / 2;
+          return (
+            <g key={`${groupIndex}-${seriesIndex}`}>
+              <title>{boxTooltip(group, label, box, showLegend)}</title>
+              {/* Whiskers */}
+              <line x1={center} x2={center} y1={scaleY(box.max)} y2={scaleY(box.q3)} stroke={stroke} />
+              <line x1={center} x2={center} y1={scaleY(box.q1)} y2={scaleY(box.min)} stroke={stroke} />
+              <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={scaleY(box.max)} y2={scaleY(box.max)} stroke={stroke} />
+              <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={scaleY(box.min)} y2={scaleY(box.min)} stroke={stroke} />
+              {/* Interquartile box and median */}
+              <rect
+                x={left}
+                y={scaleY(box.q3)}
+                width={boxWidth}
+                height={Math.max(scaleY(box.q1) - scaleY(box.q3), 1)}
+                fill={fill}
+                stroke={stroke}
+              />
+              <line x1={left} x2={left + boxWidth} y1={scaleY(box.median)} y2={scaleY(box.median)} stroke={stroke} strokeWidth={2} />
+              {box.outliers.map((value, outlierIndex) => (
+                <circle key={outlierIndex} cx={center} cy={scaleY(value)} r={3} fill="none" stroke={stroke} />
+              ))}
+            </g>
+          );
+        })
+      )}
+
+      {chart.labels.map((label, index) => {
+        const x = LEFT + index * groupWidth + groupWidth / 2;
+        const y = plotBottom + 12;
+        return (
+          <text
+            key={`x-${index}`}
+            x={x}
+            y={y}
+            textAnchor={rotateXLabels ? 'end' : 'middle'}
+            dominantBaseline="central"
+            fontSize={11}
+            fill="#4b5563"
+            transform={rotateXLabels ? `rotate(-45 ${x} ${y})` : undefined}
+          >
+            {truncate(label)}
+          </text>
+        );
+      })}
+
+      {showLegend &&
+        series.map(({ label, stroke, fill }, index) => (
+          <g key={`legend-${index}`}>
+            <rect x={LEFT} y={legendTop + index * LEGEND_ROW_HEIGHT} width={12} height={12} fill={fill} stroke={stroke} />
+            <text
+              x={LEFT + 18}
+              y={legendTop + index * LEGEND_ROW_HEIGHT + 6}
+              dominantBaseline="central"
+              fontSize={11}
+              fill="#4b5563"
+            >
+              {label}
+            </text>
+          </g>
+        ))}
+    </svg>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { applyChartEdits } from '@/lib/chart-edit';
+import {
+  Dashboard,
+  DASHBOARD_COLUMNS,
+  DashboardPin,
+  movePin,
+  unpinChart,
+  updatePin
+} from '@/lib/dashboard';
+import { ChartView } from './data-visualization';
+
+// Height of one grid row in pixels, and the gap between cells
+const ROW_HEIGHT = 160;
+const GAP = 16;
+
+// Column spans only apply on wide screens - narrow screens stack the pins
+const COL_SPAN_CLASSES: Record<number, string> = {
+  1: 'md:col-span-1',
+  2: 'md:col-span-2',
+  3: 'md:col-span-3',
+};
+
+interface PinSize {
+  pinId: string;
+  colSpan: number;
+  rowSpan: number;
+}
+
+interface ChartDashboardProps {
+  dashboard: Dashboard;
+  onChange: (dashboard: Dashboard) => void;
+}
+
+export function ChartDashboard({ dashboard, onChange }: ChartDashboardProps) {
+  const gridRef = React.useRef<HTMLDivElement>(null);
+  const [draggedPinId, setDraggedPinId] = React.useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = React.useState<string | null>(null);
+  // Size shown while a pin is being resized, saved when the pointer is released
+  const [resizing, setResizing] = React.useState<PinSize | null>(null);
+
+  // Function to resize a pin by dragging its corner, snapping to grid cells
+  const startResize = (event: React.PointerEvent<HTMLDivElement>, pin: DashboardPin) => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const columnWidth = (grid.clientWidth - GAP * (DASHBOARD_COLUMNS - 1)) / DASHBOARD_COLUMNS + GAP;
+    const rowHeight = ROW_HEIGHT + GAP;
+    const start = { x: event.clientX, y: event.clientY };
+    let size: PinSize = { pinId: pin.id, colSpan: pin.colSpan, rowSpan: pin.rowSpan };
+    setResizing(size);
+
+    const handle = event.currentTarget;
+    const onMove = (moveEvent: PointerEvent) => {
+      const next = updatePin(dashboard, pin.id, {
+        colSpan: pin.colSpan + Math.round((moveEvent.clientX - start.x) / columnWidth),
+        rowSpan: pin.rowSpan + Math.round((moveEvent.clientY - start.y) / rowHeight),
+      }).pins.find((candidate) => candidate.id === pin.id);
+      if (next && (next.colSpan !== size.colSpan || next.rowSpan !== size.rowSpan)) {
+        size = { pinId: pin.id, colSpan: next.colSpan, rowSpan: next.rowSpan };
+        setResizing(size);
+      }
+    };
+    const onUp = () => {
+      handle.removeEventListener('pointermove', onMove);
+      handle.removeEventListener('pointerup', onUp);
+      handle.removeEventListener('pointercancel', onUp);
+      setResizing(null);
+      if (size.colSpan !== pin.colSpan || size.rowSpan !== pin.rowSpan) {
+        onChange(updatePin(dashboard, pin.id, { colSpan: size.colSpan, rowSpan: size.rowSpan }));
+      }
+    };
+    handle.addEventListener('pointermove', onMove);
+    handle.addEventListener('pointerup', onUp);
+    handle.addEventListener('pointercancel', onUp);
+  };
+
+  const endDrag = () => {
+    setDraggedPinId(null);
+    setDropTargetId(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Input
+        value={dashboard.title}
+        onChange={(e) => onChange({ ...dashboard, title: e.target.value })}
+        className="h-9 border-transparent px-1 text-base font-medium shadow-none hover:border-input"
+        aria-label="Dashboard title"
+      />
+
+      {dashboard.pins.length === 0 ? (
+        <div className="flex h-[300px] flex-col items-center justify-center text-center">
+          <p className="mb-2 text-sm text-gray-500">No charts pinned yet</p>
+          <p className="text-xs text-gray-400">
+            Use &quot;Pin&quot; on a chart to collect it here, then drag to arrange and resize from the corner
+          </p>
+        </div>
+      ) : (
+        <div
+          ref={gridRef}
+          className="grid grid-cols-1 md:grid-cols-3"
+          style={{ gridAutoRows: `${ROW_HEIGHT}px`, gap: `${GAP}px` }}
+        >
+          {dashboard.pins.map((pin) => {
+            const size = resizing?.pinId === pin.id ? resizing : pin;
+            return (
+              <div
+                key={pin.id}
+                className={`relative flex min-w-0 flex-col rounded-lg border bg-card shadow-sm ${
+                  COL_SPAN_CLASSES[size.colSpan]
+                } ${dropTargetId === pin.id && draggedPinId !== pin.id ? 'ring-2 ring-blue-500' : ''} ${
+                  draggedPinId === pin.id ? 'opacity-50' : ''
+                }`}
+                style={{ gridRow: `span ${size.rowSpan} / span ${size.rowSpan}` }}
+                onDragOver={(e) => {
+                  if (!draggedPinId) return;
+                  e.preventDefault();
+                  setDropTargetId(pin.id);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (draggedPinId) onChange(movePin(dashboard, draggedPinId, pin.id));
+                  endDrag();
+                }}
+              >
+                <div
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', pin.id);
+                    setDraggedPinId(pin.id);
+                  }}
+                  onDragEnd={endDrag}
+                  className="flex cursor-grab items-center gap-2 border-b px-3 py-1.5 active:cursor-grabbing"
+                  title="Drag to move"
+                >
+                  <span className="select-none text-gray-400" aria-hidden>⠿</span>
+                  <input
+                    value={pin.title}
+                    onChange={(e) => onChange(updatePin(dashboard, pin.id, { title: e.target.value }))}
+                    className="min-w-0 flex-1 bg-transparent text-sm font-medium outline-none"
+                    aria-label="Chart title"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onChange(unpinChart(dashboard, pin.id))}
+                    className="text-gray-400 hover:text-gray-700"
+                    aria-label={`Unpin ${pin.title}`}
+                    title="Unpin"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="min-h-0 flex-1 p-2">
+                  <ChartView chart={{ ...applyChartEdits(pin.chart), title: pin.title }} />
+                </div>
+                <div
+                  onPointerDown={(e) => startResize(e, pin)}
+                  className="absolute bottom-0 right-0 h-4 w-4 cursor-se-resize touch-none"
+                  style={{ background: 'linear-gradient(135deg, transparent 50%, #9ca3af 50%)' }}
+                  title="Drag to resize"
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
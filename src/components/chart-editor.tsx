@@ -0,0 +1,253 @@
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChartData, ChartEdits, ChartType } from '@/lib/chart-data';
+import {
+  AXIS_TYPES,
+  canReorderLabels,
+  CHART_PALETTES,
+  editableChartTypes,
+  LabelSort,
+  moveLabel,
+  resetChartEdits,
+  sortedLabelOrder,
+  STACKABLE_TYPES,
+  updateChartEdits
+} from '@/lib/chart-edit';
+
+const CHART_TYPE_NAMES: Record<ChartType, string> = {
+  bar: 'Bar',
+  line: 'Line',
+  pie: 'Pie',
+  doughnut: 'Doughnut',
+  polarArea: 'Polar area',
+  scatter: 'Scatter',
+  histogram: 'Histogram',
+  heatmap: 'Heatmap',
+  boxplot: 'Box plot',
+};
+
+const LABEL_SORTS: Array<{ value: LabelSort; name: string }> = [
+  { value: 'label-asc', name: 'Label A–Z' },
+  { value: 'label-desc', name: 'Label Z–A' },
+  { value: 'value-asc', name: 'Value, low to high' },
+  { value: 'value-desc', name: 'Value, high to low' },
+];
+
+const SELECT_CLASS = 'h-8 w-full rounded-md border bg-transparent px-2 text-sm';
+
+interface ChartEditorProps {
+  chart: ChartData; // The chart as sent, with any edits made so far
+  onChange: (chart: ChartData) => void;
+}
+
+// Panel for changing how an AI-generated chart is displayed
+export function ChartEditor({ chart, onChange }: ChartEditorProps) {
+  const edits = chart.edits ?? {};
+  const type = edits.type ?? chart.type;
+  const labelOrder = edits.labelOrder ?? chart.labels.map((_, index) => index);
+  const hiddenDatasets = edits.hiddenDatasets ?? [];
+
+  const update = (changes: Partial<ChartEdits>) => onChange(updateChartEdits(chart, changes));
+
+  const toggleDataset = (index: number) => {
+    update({
+      hiddenDatasets: hiddenDatasets.includes(index)
+        ? hiddenDatasets.filter((hidden) => hidden !== index)
+        : [...hiddenDatasets, index],
+    });
+  };
+
+  return (
+    <div className="grid gap-4 rounded-md border bg-gray-50 p-3 text-sm dark:bg-gray-900/40 sm:grid-cols-2">
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-gray-500">Chart type</span>
+        <select
+          value={type}
+          onChange={(e) => update({ type: e.target.value as ChartType })}
+          className={SELECT_CLASS}
+        >
+          {editableChartTypes(chart).map((option) => (
+            <option key={option} value={option}>{CHART_TYPE_NAMES[option]}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-gray-500">Title</span>
+        <Input
+          value={edits.title ?? chart.title}
+          onChange={(e) => update({ title: e.target.value })}
+          className="h-8"
+        />
+      </label>
+
+      {AXIS_TYPES.includes(type) && (
+        <>
+          <label className="space-y-1">
+            <span className="text-xs font-medium text-gray-500">X axis title</span>
+            <Input
+              value={edits.xAxisTitle ?? chart.xAxisTitle ?? ''}
+              onChange={(e) => update({ xAxisTitle: e.target.value })}
+              className="h-8"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs font-medium text-gray-500">Y axis title</span>
+            <Input
+              value={edits.yAxisTitle ?? chart.yAxisTitle ?? ''}
+              onChange={(e) => update({ yAxisTitle: e.target.value })}
+              className="h-8"
+            />
+          </label>
+        </>
+      )}
+
+      {chart.datasets.length > 1 && (
+        <fieldset className="space-y-1">
+          <legend className="text-xs font-medium text-gray-500">Datasets</legend>
+          {chart.datasets.map((dataset, index) => {
+            const isVisible = !hiddenDatasets.includes(index);
+            // Keep at least one dataset on the chart
+            const isLastVisible = isVisible && hiddenDatasets.length === chart.datasets.length - 1;
+            return (
+              <label key={index} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={isVisible}
+                  disabled={isLastVisible}
+                  onChange={() => toggleDataset(index)}
+                />
+                <span className="truncate">{dataset.label}</span>
+              </label>
+            );
+          })}
+        </fieldset>
+      )}
+
+      {canReorderLabels(chart) && chart.labels.length > 1 && (
+        <div className="space-y-1">
+          <span className="text-xs font-medium text-gray-500">Label order</span>
+          <select
+            value=""
+            onChange={(e) => update({ labelOrder: sortedLabelOrder(chart, e.target.value as LabelSort) })}
+            className={SELECT_CLASS}
+          >
+            <option value="" disabled>Sort by...</option>
+            {LABEL_SORTS.map(({ value, name }) => (
+              <option key={value} value={value}>{name}</option>
+            ))}
+          </select>
+          <ol className="max-h-40 overflow-y-auto rounded border bg-white dark:bg-transparent">
+            {labelOrder.map((labelIndex, position) => (
+              <li key={labelIndex} className="flex items-center gap-1 px-2 py-0.5 text-xs">
+                <span className="flex-1 truncate">{chart.labels[labelIndex]}</span>
+                <button
+                  type="button"
+                  className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  disabled={position === 0}
+                  onClick={() => update({ labelOrder: moveLabel(chart, position, -1) })}
+                  aria-label={`Move ${chart.labels[labelIndex]} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  disabled={position === labelOrder.length - 1}
+                  onClick={() => update({ labelOrder: moveLabel(chart, position, 1) })}
+                  aria-label={`Move ${chart.labels[labelIndex]} down`}
+                >
+                  ↓
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {type !== 'heatmap' && (
+        <fieldset className="space-y-1">
+          <legend className="text-xs font-medium text-gray-500">Palette</legend>
+          <div className="flex flex-wrap gap-2">
+            {CHART_PALETTES.map((palette) => (
+              <button
+                key={palette.name}
+                type="button"
+                title={palette.name}
+                aria-label={`${palette.name} palette`}
+                aria-pressed={edits.palette?.join() === palette.colors.join()}
+                onClick={() => update({ palette: palette.colors })}
+                className="flex overflow-hidden rounded border aria-pressed:ring-2 aria-pressed:ring-blue-500"
+              >
+                {palette.colors.slice(0, 6).map((color) => (
+                  <span key={color} className="h-5 w-3" style={{ backgroundColor: color }} />
+                ))}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {AXIS_TYPES.includes(type) && (
+        <div className="space-y-2">
+          {STACKABLE_TYPES.includes(type) && chart.datasets.length > 1 && (
+            <div className="flex items-center gap-2">
+              <span className="w-20 text-xs font-medium text-gray-500">Series</span>
+              <Button
+                size="sm"
+                variant={(edits.stacked ?? chart.stacked) ? 'ghost' : 'secondary'}
+                className="h-7 text-xs"
+                onClick={() => update({ stacked: false })}
+              >
+                Grouped
+              </Button>
+              <Button
+                size="sm"
+                variant={(edits.stacked ?? chart.stacked) ? 'secondary' : 'ghost'}
+                className="h-7 text-xs"
+                onClick={() => update({ stacked: true })}
+              >
+                Stacked
+              </Button>
+            </div>
+          )}
+          {AXIS_TYPES.includes(type) && (
+            <div className="flex items-center gap-2">
+              <span className="w-20 text-xs font-medium text-gray-500">Value scale</span>
+              <Button
+                size="sm"
+                variant={(edits.yScale ?? chart.yScale) === 'logarithmic' ? 'ghost' : 'secondary'}
+                className="h-7 text-xs"
+                onClick={() => update({ yScale: 'linear' })}
+              >
+                Linear
+              </Button>
+              <Button
+                size="sm"
+                variant={(edits.yScale ?? chart.yScale) === 'logarithmic' ? 'secondary' : 'ghost'}
+                className="h-7 text-xs"
+                onClick={() => update({ yScale: 'logarithmic' })}
+              >
+                Log
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-end justify-end sm:col-span-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!chart.edits}
+          onClick={() => onChange(resetChartEdits(chart))}
+        >
+          Reset to original
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { getColumnProfiles, UploadResponse } from '@/services/api';
+import { ApiError, isAbortError } from '@/services/api-error';
+import { ColumnProfile, columnQuestion, DatasetProfile, profilePreview } from '@/lib/column-profile';
+import { formatCellValue } from '@/lib/data-grid';
+
+const SPARKLINE_WIDTH = 96;
+const SPARKLINE_HEIGHT = 24;
+
+// Function to draw bin counts as a row of tiny bars
+function Sparkline({ counts }: { counts: number[] }) {
+  const peak = Math.max(...counts, 1);
+  const barWidth = SPARKLINE_WIDTH / counts.length;
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="shrink-0 text-blue-500" aria-hidden>
+      {counts.map((count, index) => {
+        const height = count === 0 ? 0 : Math.max(1, (count / peak) * SPARKLINE_HEIGHT);
+        return (
+          <rect
+            key={index}
+            x={index * barWidth + 0.5}
+            y={SPARKLINE_HEIGHT - height}
+            width={Math.max(1, barWidth - 1)}
+            height={height}
+            fill="currentColor"
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | null }) {
+  return (
+    <div className="min-w-0">
+      <dt className="text-gray-500">{label}</dt>
+      <dd className="truncate font-medium tabular-nums" title={value ?? undefined}>{value ?? '–'}</dd>
+    </div>
+  );
+}
+
+function ProfileCard({ profile, rows, onAsk, disabled }: {
+  profile: ColumnProfile;
+  rows: number;
+  onAsk: (question: string) => void;
+  disabled: boolean;
+}) {
+  const missingPercent = rows > 0 ? (profile.missing / rows) * 100 : 0;
+  const format = (value: number | string | undefined) =>
+    value === undefined ? null : formatCellValue(value, profile.kind);
+
+  return (
+    <div className="w-full rounded-md border p-3 text-left text-xs">
+      <div className="mb-2 flex items-center gap-2">
+        <span className="min-w-0 flex-1 truncate text-sm font-medium">{profile.column}</span>
+        <Badge variant="outline" className="shrink-0 font-normal">{profile.dataType || profile.kind}</Badge>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 shrink-0 px-2 text-xs"
+          onClick={() => onAsk(columnQuestion(profile))}
+          disabled={disabled}
+          title={`Ask: ${columnQuestion(profile)}`}
+          aria-label={`Ask about ${profile.column}`}
+        >
+          Ask
+        </Button>
+      </div>
+
+      <div className="mb-2 flex items-end gap-3">
+        <dl className="grid flex-1 grid-cols-2 gap-x-3 gap-y-1">
+          <Stat
+            label="Missing"
+            value={`${profile.missing.toLocaleString()} (${missingPercent.toFixed(missingPercent > 0 && missingPercent < 1 ? 1 : 0)}%)`}
+          />
+          <Stat label="Distinct" value={profile.distinct.toLocaleString()} />
+        </dl>
+        {profile.histogram && profile.histogram.length > 1 && <Sparkline counts={profile.histogram} />}
+      </div>
+
+      {profile.kind === 'number' && profile.min !== undefined && (
+        <dl className="grid grid-cols-4 gap-x-2">
+          <Stat label="Min" value={format(profile.min)} />
+          <Stat label="Max" value={format(profile.max)} />
+          <Stat label="Mean" value={format(profile.mean)} />
+          <Stat label="Median" value={format(profile.median)} />
+        </dl>
+      )}
+
+      {profile.kind === 'date' && profile.earliest && (
+        <dl className="grid grid-cols-2 gap-x-3">
+          <Stat label="Earliest" value={format(profile.earliest)} />
+          <Stat label="Latest" value={format(profile.latest)} />
+        </dl>
+      )}
+
+      {profile.topValues && profile.topValues.length > 0 && (
+        <ul className="space-y-0.5">
+          {profile.topValues.map(({ value, count }) => (
+            <li key={value} className="relative flex items-center gap-2 overflow-hidden rounded px-1">
+              <span
+                className="absolute inset-y-0 left-0 bg-blue-100 dark:bg-blue-950"
+                style={{ width: `${profile.count > 0 ? (count / profile.count) * 100 : 0}%` }}
+                aria-hidden
+              />
+              <span className="relative min-w-0 flex-1 truncate">{value}</span>
+              <span className="relative tabular-nums text-gray-500">{count.toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface ColumnProfilePanelProps {
+  file: UploadResponse;
+  onAskAboutColumn: (question: string) => void;
+  disabled?: boolean;
+}
+
+// Profile cards for each column. The preview's profile shows straight away and
+// is replaced by the full dataset's when the backend can profile it.
+export function ColumnProfilePanel({ file, onAskAboutColumn, disabled = false }: ColumnProfilePanelProps) {
+  const previewProfile = React.useMemo(
+    () => profilePreview(file.summary.columns, file.summary.data_types, file.data_preview ?? []),
+    [file]
+  );
+  const [datasetProfile, setDatasetProfile] = React.useState<DatasetProfile | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    setDatasetProfile(null);
+    setIsLoading(true);
+    getColumnProfiles(file.file_id, { signal: controller.signal, retries: 1 })
+      .then((response) => {
+        setDatasetProfile({ source: 'dataset', rows: response.rows, columns: response.columns });
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        // Older backends can't profile, and the preview's profile stays in place
+        if (!(error instanceof ApiError && error.unsupported)) {
+          console.error('Error loading column profiles:', error);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [file.file_id]);
+
+  const profile = datasetProfile ?? previewProfile;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">
+        {profile.source === 'dataset'
+          ? `Profiled from all ${profile.rows.toLocaleString()} rows.`
+          : `Profiled from the ${profile.rows.toLocaleString()} preview rows${isLoading ? ' - loading the full profile...' : '.'}`}{' '}
+        Use Ask on a column to ask the AI about it.
+      </p>
+      <div className="max-h-[480px] space-y-2 overflow-y-auto pr-1">
+        {profile.columns.map((column) => (
+          <ProfileCard
+            key={column.column}
+            profile={column}
+            rows={profile.rows}
+            onAsk={onAskAboutColumn}
+            disabled={disabled}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
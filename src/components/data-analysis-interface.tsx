@@ -3,16 +3,51 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardAction, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
-import { uploadFile, sendChatMessage } from "@/services/api";
-import { DataVisualization, parseChartDataFromResponse, ChartData } from "./data-visualization";
+import { uploadFile, streamChatMessage, getConversationHistory, ConversationResponse } from "@/services/api";
+import {
+  loadActiveFileId,
+  loadOpenFileIds,
+  loadSuggestionPackIds,
+  saveActiveFileId,
+  saveOpenFileIds,
+  saveSuggestionPackIds
+} from "@/services/session-store";
+import {
+  SavedMessage,
+  SavedSession,
+  SavedSessionSummary,
+  deleteSavedSession,
+  exportSavedSession,
+  getSavedSession,
+  listSavedSessions,
+  renameSavedSession,
+  saveSession
+} from "@/services/session-db";
+import { downloadText, toFilename } from "@/lib/download";
+import { describeApiError, describeRetry, isAbortError } from "@/services/api-error";
+import { DataVisualization, ChartErrorCard, ChartRepairNote, parseChartDataFromResponse, ChartData, ChartParseError, ChartRepair } from "./data-visualization";
+import { parseChartData } from "@/lib/chart-data";
+import { createDashboard, Dashboard, isChartPinned, pinChart } from "@/lib/dashboard";
+import { DEFAULT_ENABLED_PACK_IDS, enabledSuggestionPacks } from "@/lib/suggestion-packs";
+import { generateSuggestions } from "@/lib/suggestions";
+import { createQueueItems, inspectUploads, isUploadPending, QueuedUpload, UploadQueueItem, WorkbookChoice } from "@/lib/upload-queue";
+import { datasetLabel, isLegacyWorkbook } from "@/lib/workbook";
+import { ChartDashboard } from "./chart-dashboard";
+import { ColumnProfilePanel } from "./column-profile-panel";
+import { DatasetSidebar } from "./dataset-sidebar";
+import { MessageCharts } from "./message-charts";
+import { DataGrid } from "./data-grid";
+import { ReportExportDialog } from "./report-export-dialog";
+import { SessionManager } from "./session-manager";
+import { SheetPickerDialog } from "./sheet-picker-dialog";
+import { SuggestionPackPicker } from "./suggestion-pack-picker";
+import { UploadQueue } from "./upload-queue";
 import ReactMarkdown from 'react-markdown';
 
 // Define interfaces for TypeScript
@@ -22,7 +57,10 @@ interface Message {
   formattedContent?: string; // Optional formatted content with charts removed
   timestamp: string;
   charts?: ChartData[];
+  chartErrors?: ChartParseError[]; // Chart blocks that failed validation
+  chartRepairs?: ChartRepair[]; // Mistakes fixed in the charts that were drawn
   isTyping?: boolean; // Flag to indicate if this message is currently being typed
+  isCancelled?: boolean; // Flag to indicate the user stopped this response
 }
 
 interface FileData {
@@ -34,23 +72,150 @@ interface FileData {
     data_types: Record<string, string>;
   };
   data_preview: Record<string, unknown>[];
+  sheet_name?: string;
+  sheet_names?: string[];
+}
+
+// One uploaded dataset in the workspace, with its own conversation and charts
+interface DatasetSession {
+  file: FileData;
+  messages: Message[];
+  visualizationCharts: ChartData[];
+  dashboard: Dashboard; // Charts pinned from the conversation
+  isRestoring?: boolean;
+}
+
+const NO_MESSAGES: Message[] = [];
+const SAVE_DEBOUNCE_MS = 500;
+const NO_CHARTS: ChartData[] = [];
+
+// Function to format AI responses - removing chart code blocks and enhancing formatting
+function formatAIResponse(content: string): string {
+  // Remove chart data blocks
+  const cleanedContent = content.replace(/```chart-data\n[\s\S]*?\n```/g, '');
+
+  // Remove any empty markdown code blocks that might be left
+  const noEmptyBlocks = cleanedContent.replace(/```\s*```/g, '');
+
+  // Remove excessive line breaks and cleanup
+  return noEmptyBlocks
+    .replace(/\n{3,}/g, '\n\n') // Replace 3+ consecutive line breaks with 2
+    .replace(/---\s*\n\s*\n/g, '---\n') // Clean up after markdown horizontal rules
+    .trim();
+}
+
+// Format a partially streamed response - also hides a chart block that hasn't been closed yet
+function formatStreamingResponse(content: string): string {
+  return formatAIResponse(content)
+    .replace(/```chart-data[\s\S]*$/, '')
+    .replace(/`{1,3}[\w-]*$/, '')
+    .trimEnd();
+}
+
+// Strip UI-only flags from a message before it is saved
+function toSavedMessage(message: Message): SavedMessage {
+  return {
+    role: message.role,
+    content: message.content,
+    formattedContent: message.formattedContent,
+    timestamp: message.timestamp,
+    charts: message.charts,
+    chartErrors: message.chartErrors,
+    chartRepairs: message.chartRepairs,
+    isCancelled: message.isCancelled
+  };
+}
+
+// Build the assistant's greeting shown when a file is opened
+function buildWelcomeMessage(data: FileData): Message {
+  const welcomeMessage = `**File Analysis Complete!**
+
+I've processed your file "**${data.filename}**"${data.sheet_name ? ` (sheet "**${data.sheet_name}**")` : ""}. 
+
+Here's a summary of your data:
+* **Rows:** ${data.summary.rows}
+* **Columns:** ${data.summary.columns.length}
+
+How can I help you analyze this data? You can ask me to:
+* Generate visualizations
+* Calculate statistics
+* Find trends or patterns
+* Summarize key insights`;
+
+  return {
+    role: "assistant",
+    content: welcomeMessage,
+    formattedContent: welcomeMessage,
+    timestamp: new Date().toISOString()
+  };
+}
+
+// Convert stored conversation messages back into chat messages, re-parsing charts
+function messagesFromHistory(history: ConversationResponse): Message[] {
+  return history.messages.map((msg) => {
+    if (msg.role === "user") {
+      return { role: "user", content: msg.content, timestamp: msg.timestamp };
+    }
+    const { charts, errors, repairs } = parseChartData(msg.content);
+    return {
+      role: "assistant",
+      content: msg.content,
+      formattedContent: formatAIResponse(msg.content),
+      timestamp: msg.timestamp,
+      charts: charts.length > 0 ? charts : undefined,
+      chartErrors: errors.length > 0 ? errors : undefined,
+      chartRepairs: repairs.length > 0 ? repairs : undefined
+    };
+  });
 }
 
 export function DataAnalysisInterface() {
   // State variables
+  const [datasets, setDatasets] = useState<DatasetSession[]>([]);
   const [activeFileId, setActiveFileId] = useState<string | null>(null);
-  const [fileData, setFileData] = useState<FileData | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
-  const [isUploading, setIsUploading] = useState(false);
-  const [isSending, setIsSending] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [visualizationCharts, setVisualizationCharts] = useState<ChartData[]>([]);
+  const [uploadQueue, setUploadQueue] = useState<UploadQueueItem[]>([]);
+  const [sheetChoices, setSheetChoices] = useState<WorkbookChoice[]>([]);
+  // Datasets with a response on its way - each thread can stream on its own
+  const [sendingFileIds, setSendingFileIds] = useState<Set<string>>(() => new Set());
+  const [savedSessions, setSavedSessions] = useState<SavedSessionSummary[]>([]);
+  const [isWorkspaceRestored, setIsWorkspaceRestored] = useState(false);
+  const [visualizationView, setVisualizationView] = useState<"latest" | "dashboard">("latest");
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isDataGridOpen, setIsDataGridOpen] = useState(false);
+
+  // The dataset currently shown - null while adding a new one
+  const activeDataset = datasets.find(dataset => dataset.file.file_id === activeFileId) ?? null;
+  const fileData = activeDataset?.file ?? null;
+  const messages = activeDataset?.messages ?? NO_MESSAGES;
+  const visualizationCharts = activeDataset?.visualizationCharts ?? NO_CHARTS;
+  const dashboard = activeDataset?.dashboard ?? null;
+  const isRestoring = activeDataset?.isRestoring ?? false;
+  const isSending = activeFileId !== null && sendingFileIds.has(activeFileId);
+  const openFileIds = new Set(datasets.map(dataset => dataset.file.file_id));
+  const isUploading = uploadQueue.some(item => item.status === "uploading");
+
+  // Text of the responses being streamed, by dataset file id
+  const [typingTexts, setTypingTexts] = useState<Record<string, string>>({});
+  const typingText = activeFileId ? typingTexts[activeFileId] : undefined;
+  const isTyping = typingText !== undefined;
+
+  // Last saved version of each dataset, so unchanged ones aren't written again
+  const savedDatasetsRef = useRef(new Map<string, DatasetSession>());
+
+  // Controllers for the uploads in progress, used by their Cancel buttons
+  const uploadAbortRef = useRef(new Map<string, AbortController>());
 
-  // State for typing effect
-  const [typingText, setTypingText] = useState<string>("");
-  const [isTyping, setIsTyping] = useState<boolean>(false);
-  // const [fullResponse, setFullResponse] = useState<string>("");
+  // Workbooks uploaded during this visit by dataset file id, so another of
+  // their sheets can be loaded without choosing the file again
+  const workbookFilesRef = useRef(new Map<string, File>());
+  // Input for choosing a workbook again after a reload, and the sheet wanted from it
+  const workbookInputRef = useRef<HTMLInputElement>(null);
+  const pendingSheetRef = useRef<{ filename: string; sheetName: string; sheetNames?: string[] } | null>(null);
+
+  // Controllers for the chat requests in flight by dataset file id, used by
+  // the Stop button
+  const chatAbortRef = useRef(new Map<string, AbortController>());
 
   // Reference for the messages container
   const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -76,78 +241,347 @@ export function DataAnalysisInterface() {
     }
   }, [messagesContainerRef, isTyping]);
 
-  // Function to handle file upload
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Function to update one dataset in the workspace
+  const updateDataset = useCallback((fileId: string, update: (dataset: DatasetSession) => Partial<DatasetSession>) => {
+    setDatasets(prev => prev.map(dataset =>
+      dataset.file.file_id === fileId ? { ...dataset, ...update(dataset) } : dataset
+    ));
+  }, []);
+
+  // Function to save an edited chart in the active dataset's visualizations
+  const updateVisualizationChart = (index: number, chart: ChartData) => {
+    if (!activeFileId) return;
+    updateDataset(activeFileId, dataset => ({
+      visualizationCharts: dataset.visualizationCharts.map((existing, i) => i === index ? chart : existing)
+    }));
+  };
+
+  // Function to save changes to the active dataset's dashboard
+  const updateDashboard = (next: Dashboard) => {
+    if (!activeFileId) return;
+    updateDataset(activeFileId, () => ({ dashboard: next }));
+  };
+
+  // Function to pin a chart to the active dataset's dashboard
+  const pinToDashboard = (chart: ChartData) => {
+    if (!activeFileId) return;
+    updateDataset(activeFileId, dataset => ({ dashboard: pinChart(dataset.dashboard, chart) }));
+    toast.success("Chart pinned to the dashboard");
+  };
+
+  // Function to add a dataset to the workspace, or reset it if it's already open
+  const addDataset = useCallback((dataset: DatasetSession) => {
+    setDatasets(prev => prev.some(existing => existing.file.file_id === dataset.file.file_id)
+      ? prev.map(existing => existing.file.file_id === dataset.file.file_id ? dataset : existing)
+      : [...prev, dataset]
+    );
+  }, []);
+
+  // Function to change one file in the upload queue
+  const updateQueueItem = useCallback((id: string, changes: Partial<UploadQueueItem>) => {
+    setUploadQueue(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  // Function to upload one queued file and open it as a new dataset
+  const startUpload = useCallback(async (item: UploadQueueItem) => {
+    const controller = new AbortController();
+    uploadAbortRef.current.set(item.id, controller);
+    updateQueueItem(item.id, { status: "uploading", progress: 0, error: undefined, notice: undefined });
     
-    // Check if file is Excel or CSV
-    const fileName = file.name.toLowerCase();
-    if (!fileName.endsWith('.xlsx') && !fileName.endsWith('.xls') && !fileName.endsWith('.csv')) {
-      toast.error("Please upload an Excel file (.xlsx, .xls) or CSV file (.csv)");
+    try {
+      // Use the API service to upload the file, reporting real progress
+      const response = await uploadFile(item.file, {
+        onProgress: progress => updateQueueItem(item.id, { progress }),
+        signal: controller.signal,
+        sheetName: item.sheetName,
+        onRetry: (error, delayMs) => updateQueueItem(item.id, { notice: describeRetry(error, delayMs) })
+      });
+      // Fill in the sheets from the workbook if the server didn't list them
+      const data: FileData = {
+        ...response,
+        sheet_name: response.sheet_name ?? item.sheetName,
+        sheet_names: response.sheet_names ?? item.sheetNames
+      };
+      if (data.sheet_names && data.sheet_names.length > 1) {
+        workbookFilesRef.current.set(data.file_id, item.file);
+      }
+      addDataset({
+        file: data,
+        messages: [buildWelcomeMessage(data)],
+        visualizationCharts: [],
+        dashboard: createDashboard(`${data.filename} overview`)
+      });
+      updateQueueItem(item.id, { status: "done", progress: 100, notice: undefined, fileId: data.file_id });
+      toast.success(`${datasetLabel(data.filename, data.sheet_name)} uploaded successfully!`);
+      
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateQueueItem(item.id, { status: "cancelled", notice: undefined });
+      } else {
+        console.error("Error uploading file:", error);
+        updateQueueItem(item.id, { status: "failed", notice: undefined, error: describeApiError(error) });
+      }
+    } finally {
+      uploadAbortRef.current.delete(item.id);
+    }
+  }, [addDataset, updateQueueItem]);
+
+  // Upload queued files one at a time, in the order they were added
+  useEffect(() => {
+    if (uploadQueue.some(item => item.status === "uploading")) return;
+    const next = uploadQueue.find(item => item.status === "queued");
+    if (next) {
+      startUpload(next);
+    }
+  }, [uploadQueue, startUpload]);
+
+  // Once the queue is through, open the first new dataset - unless an upload
+  // failed, in which case the queue stays up to show why
+  useEffect(() => {
+    if (uploadQueue.length === 0 || uploadQueue.some(isUploadPending)) return;
+    if (uploadQueue.some(item => item.status === "failed")) return;
+    
+    const firstUploaded = uploadQueue.find(item => item.status === "done");
+    setUploadQueue([]);
+    if (firstUploaded?.fileId) {
+      setActiveFileId(firstUploaded.fileId);
+    }
+  }, [uploadQueue]);
+
+  // Function to queue dropped or chosen files for upload
+  const queueUploads = async (files: File[]) => {
+    const { ready, workbooks } = await inspectUploads(files);
+    enqueueUploads(ready);
+    const legacyWorkbooks = ready.filter(({ file }) => isLegacyWorkbook(file.name));
+    if (legacyWorkbooks.length > 0) {
+      const names = legacyWorkbooks.map(({ file }) => file.name).join(', ');
+      toast.info(`Sheets can only be picked from .xlsx workbooks, so the first sheet of ${names} is uploaded`);
+    }
+    if (workbooks.length > 0) {
+      setSheetChoices(prev => [...prev, ...workbooks]);
+    }
+  };
+
+  // Function to add files, or sheets of workbooks, to the upload queue
+  const enqueueUploads = (uploads: QueuedUpload[]) => {
+    setUploadQueue(prev => [...prev, ...createQueueItems(uploads)]);
+  };
+
+  // Function to queue the sheets picked from multi-sheet workbooks
+  const confirmSheetChoices = (uploads: QueuedUpload[]) => {
+    setSheetChoices([]);
+    enqueueUploads(uploads);
+  };
+
+  // Function to show another sheet of the active dataset's workbook - the
+  // dataset for it if one is open, otherwise a new upload of that sheet
+  const switchSheet = (sheetName: string) => {
+    if (!fileData) return;
+    const openSheet = datasets.find(dataset =>
+      dataset.file.filename === fileData.filename && dataset.file.sheet_name === sheetName
+    );
+    if (openSheet) {
+      setActiveFileId(openSheet.file.file_id);
       return;
     }
     
-    setIsUploading(true);
-    setUploadProgress(0);
+    const workbook = workbookFilesRef.current.get(fileData.file_id);
+    if (workbook) {
+      enqueueUploads([{ file: workbook, sheetName, sheetNames: fileData.sheet_names }]);
+      // Show the upload card, which opens the new dataset once it's uploaded
+      setActiveFileId(null);
+      return;
+    }
     
-    // Simulated upload progress
-    const progressInterval = setInterval(() => {
-      setUploadProgress((prev) => {
-        if (prev >= 95) {
-          clearInterval(progressInterval);
-          return prev;
-        }
-        return prev + 5;
-      });
-    }, 100);
+    // The workbook isn't kept across page loads, so it has to be chosen again
+    pendingSheetRef.current = { filename: fileData.filename, sheetName, sheetNames: fileData.sheet_names };
+    toast.info(`Choose ${fileData.filename} again to load its "${sheetName}" sheet`);
+    workbookInputRef.current?.click();
+  };
+
+  // Function to upload the pending sheet of a workbook chosen again
+  const handleWorkbookChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const pending = pendingSheetRef.current;
+    event.target.value = "";
+    if (!file || !pending) return;
     
-    try {
-      // Use the API service to upload the file
-      const data = await uploadFile(file);
-      setFileData(data);
-      setActiveFileId(data.file_id);
-      
-      // Add welcome message from assistant with formatting
-      const welcomeMessage = `**File Analysis Complete!**
+    if (file.name !== pending.filename) {
+      toast.error(`That's ${file.name} - choose ${pending.filename} to load its sheets`);
+      return;
+    }
+    pendingSheetRef.current = null;
+    enqueueUploads([{ file, sheetName: pending.sheetName, sheetNames: pending.sheetNames }]);
+    setActiveFileId(null);
+  };
+
+  // Function to cancel a queued file, or abort its upload if it has started
+  const cancelUpload = (id: string) => {
+    const controller = uploadAbortRef.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateQueueItem(id, { status: "cancelled" });
+    }
+  };
 
-I've processed your file "**${data.filename}**". 
+  // Function to put a failed or cancelled file back in the queue
+  const retryUpload = (id: string) => {
+    updateQueueItem(id, { status: "queued", progress: 0, error: undefined });
+  };
 
-Here's a summary of your data:
-* **Rows:** ${data.summary.rows}
-* **Columns:** ${data.summary.columns.length}
+  // Function to drop a file from the upload list
+  const removeUpload = (id: string) => {
+    setUploadQueue(prev => prev.filter(item => item.id !== id));
+  };
 
-How can I help you analyze this data? You can ask me to:
-* Generate visualizations
-* Calculate statistics
-* Find trends or patterns
-* Summarize key insights`;
+  // Function to drop every finished upload from the list
+  const clearFinishedUploads = () => {
+    setUploadQueue(prev => prev.filter(isUploadPending));
+  };
 
-      setMessages([
-        {
-          role: "assistant",
-          content: welcomeMessage,
-          formattedContent: welcomeMessage,
-          timestamp: new Date().toISOString()
-        }
-      ]);
-      
-      toast.success("File uploaded successfully!");
+  // Function to refresh the list of sessions saved in the browser
+  const refreshSavedSessions = useCallback(async () => {
+    try {
+      setSavedSessions(await listSavedSessions());
+    } catch (error) {
+      console.error("Error listing saved sessions:", error);
+    }
+  }, []);
+
+  // Function to add a saved session to the workspace. Sessions saved without a
+  // conversation fall back to the backend's history for the file.
+  const restoreDataset = useCallback(async (saved: SavedSession) => {
+    const data = saved.file;
+    if (saved.messages.length > 0) {
+      const dataset: DatasetSession = {
+        file: data,
+        messages: saved.messages,
+        visualizationCharts: saved.visualizationCharts,
+        dashboard: saved.dashboard ?? createDashboard(`${saved.name} overview`)
+      };
+      // Already saved - no need to write it back until it changes
+      savedDatasetsRef.current.set(data.file_id, dataset);
+      addDataset(dataset);
+      return;
+    }
+    
+    addDataset({
+      file: data,
+      messages: [],
+      visualizationCharts: [],
+      dashboard: saved.dashboard ?? createDashboard(`${saved.name} overview`),
+      isRestoring: true
+    });
+    
+    try {
+      const history = await getConversationHistory(data.file_id);
+      const restoredMessages = messagesFromHistory(history);
       
+      // Show the charts from the most recent response that had any
+      const latestCharts = [...restoredMessages].reverse().find(msg => msg.charts)?.charts;
+      updateDataset(data.file_id, () => ({
+        messages: restoredMessages.length > 0 ? restoredMessages : [buildWelcomeMessage(data)],
+        visualizationCharts: latestCharts ?? [],
+        isRestoring: false
+      }));
     } catch (error) {
-      console.error("Error uploading file:", error);
-      toast.error("Failed to upload file. Please try again.");
-    } finally {
-      clearInterval(progressInterval);
-      setUploadProgress(100);
-      setTimeout(() => setIsUploading(false), 500);
+      console.error("Error restoring conversation:", error);
+      toast.error(`Couldn't load the previous conversation for ${data.filename}. ${describeApiError(error)}`);
+      updateDataset(data.file_id, () => ({
+        messages: [buildWelcomeMessage(data)],
+        isRestoring: false
+      }));
+    }
+  }, [addDataset, updateDataset]);
+  
+  // Function to reopen a saved session, or switch to it if it's already open
+  const openSession = async (fileId: string) => {
+    if (datasets.some(dataset => dataset.file.file_id === fileId)) {
+      setActiveFileId(fileId);
+      return;
+    }
+    
+    try {
+      const saved = await getSavedSession(fileId);
+      if (!saved) {
+        toast.error("This session is no longer saved in the browser.");
+        refreshSavedSessions();
+        return;
+      }
+      restoreDataset(saved);
+      setActiveFileId(fileId);
+    } catch (error) {
+      console.error("Error opening saved session:", error);
+      toast.error("Couldn't open the saved session.");
+    }
+  };
+  
+  // Function to remove a dataset from the workspace
+  const closeDataset = (fileId: string) => {
+    chatAbortRef.current.get(fileId)?.abort();
+    
+    const remaining = datasets.filter(dataset => dataset.file.file_id !== fileId);
+    setDatasets(remaining);
+    if (activeFileId === fileId) {
+      setActiveFileId(remaining.length > 0 ? remaining[remaining.length - 1].file.file_id : null);
+    }
+  };
+  
+  // Functions to manage the sessions saved in the browser
+  const renameSession = async (fileId: string, name: string) => {
+    try {
+      await renameSavedSession(fileId, name);
+      refreshSavedSessions();
+    } catch (error) {
+      console.error("Error renaming session:", error);
+      toast.error("Couldn't rename the session.");
+    }
+  };
+  
+  const exportSession = async (fileId: string) => {
+    try {
+      const json = await exportSavedSession(fileId);
+      const name = savedSessions.find(session => session.fileId === fileId)?.name ?? fileId;
+      downloadText(json, `${toFilename(name, "session")}.json`, "application/json");
+    } catch (error) {
+      console.error("Error exporting session:", error);
+      toast.error("Couldn't export the session.");
+    }
+  };
+  
+  const deleteSession = async (fileId: string) => {
+    try {
+      await deleteSavedSession(fileId);
+      refreshSavedSessions();
+      toast.success("Saved session deleted");
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      toast.error("Couldn't delete the session.");
     }
   };
 
+  // Function to stop the response that is being generated
+  const stopGenerating = () => {
+    if (activeFileId) chatAbortRef.current.get(activeFileId)?.abort();
+  };
+
   // Function to send message
   const sendMessage = async (messageText?: string) => {
     const messageContent = messageText || newMessage;
     if (!messageContent.trim() || !activeFileId) return;
+    if (chatAbortRef.current.has(activeFileId)) {
+      // The message stays in the input, to send once the response is in
+      toast.info("A response is still coming in - wait for it or stop it first.");
+      return;
+    }
+    
+    // Updates go to the dataset the message was sent from, even if the user switches away
+    const fileId = activeFileId;
+    const setThreadMessages = (update: (messages: Message[]) => Message[]) =>
+      updateDataset(fileId, dataset => ({ messages: update(dataset.messages) }));
+    const setThreadCharts = (charts: ChartData[]) =>
+      updateDataset(fileId, () => ({ visualizationCharts: charts }));
     
     const userMessage = {
       role: "user" as const,
@@ -156,61 +590,123 @@ How can I help you analyze this data? You can ask me to:
     };
     
     // Update UI immediately with user message
-    setMessages(prev => [...prev, userMessage]);
+    setThreadMessages(prev => [...prev, userMessage]);
     setNewMessage("");
-    setIsSending(true);
+    setSendingFileIds(prev => new Set(prev).add(fileId));
+    
+    const controller = new AbortController();
+    chatAbortRef.current.set(fileId, controller);
+    
+    const timestamp = new Date().toISOString();
+    const isStreamedMessage = (msg: Message) => msg.role === "assistant" && msg.timestamp === timestamp;
+    let streamedText = "";
+    let chartCount = 0;
+    let scannedLength = 0;
+    let hasPlaceholder = false;
     
     try {
-      // Use the API service to send the message
-      const data = await sendChatMessage(activeFileId, userMessage.content);
+      // Stream the response and render tokens as they arrive
+      const data = await streamChatMessage(fileId, userMessage.content, {
+        signal: controller.signal,
+        onRetry: (error, delayMs) => toast.info(describeRetry(error, delayMs)),
+        onToken: (token) => {
+          if (!hasPlaceholder) {
+            // Add a placeholder message that is filled while streaming
+            hasPlaceholder = true;
+            setThreadMessages(prev => [
+              ...prev,
+              {
+                role: "assistant",
+                content: "",
+                formattedContent: "",
+                timestamp,
+                isTyping: true
+              }
+            ]);
+          }
+          
+          streamedText += token;
+          setTypingTexts(prev => ({ ...prev, [fileId]: formatStreamingResponse(streamedText) }));
+          
+          // A chart-data block can only complete when a code fence closes, so
+          // the answer is re-parsed then rather than on every token. Only the
+          // new text is scanned, with enough overlap to catch a split fence.
+          const fencesInToken = streamedText.slice(Math.max(0, scannedLength - 2)).split("```").length - 1;
+          scannedLength = streamedText.length;
+          if (fencesInToken === 0) return;
+          const streamedCharts = parseChartDataFromResponse(streamedText);
+          if (streamedCharts.length > chartCount) {
+            chartCount = streamedCharts.length;
+            setThreadCharts(streamedCharts);
+            setThreadMessages(prev => prev.map(msg =>
+              isStreamedMessage(msg) ? { ...msg, charts: streamedCharts } : msg
+            ));
+          }
+        }
+      });
       
-      // Parse chart data from the analysis text
-      const charts = parseChartDataFromResponse(data.analysis);
+      // Parse chart data from the complete analysis text
+      const { charts, errors: chartErrors, repairs: chartRepairs } = parseChartData(data.analysis);
       
       // Update visualization charts when new charts are available
       if (charts.length > 0) {
-        setVisualizationCharts(charts);
+        setThreadCharts(charts);
       }
       
       // Format the response to remove chart JSON and enhance readability
       const formattedContent = formatAIResponse(data.analysis);
-      
-      // Add a temporary placeholder message
-      const timestamp = new Date().toISOString();
-      const newMessage: Message = {
+      const completedMessage: Message = {
         role: "assistant",
-        content: "", // Start with empty content that will be filled gradually
-        formattedContent: "", // Will be gradually filled
+        content: data.analysis,
+        formattedContent: formattedContent,
         timestamp: timestamp,
-        isTyping: true, // Flag to indicate this message is being typed
-        charts: charts.length > 0 ? charts : undefined
+        charts: charts.length > 0 ? charts : undefined,
+        chartErrors: chartErrors.length > 0 ? chartErrors : undefined,
+        chartRepairs: chartRepairs.length > 0 ? chartRepairs : undefined
       };
       
-      // Add the placeholder message
-      setMessages(prev => [...prev, newMessage]);
-      
-      // Start the typing effect
-      simulateTyping(formattedContent, () => {
-        // When typing is complete, update the message with the full content
-        setMessages(prev => prev.map(msg => 
-          msg.timestamp === timestamp 
-            ? {
-                ...msg,
-                content: data.analysis, // Complete original content
-                formattedContent: formattedContent, // Complete formatted content
-                isTyping: false
-              } 
-            : msg
-        ));
-      });
+      setThreadMessages(prev => hasPlaceholder
+        ? prev.map(msg => isStreamedMessage(msg) ? completedMessage : msg)
+        : [...prev, completedMessage]
+      );
       
     } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever was streamed, charts included, and mark the response as stopped
+        const partialText = formatStreamingResponse(streamedText);
+        const { charts: partialCharts, errors: partialChartErrors, repairs: partialChartRepairs } = parseChartData(streamedText);
+        const cancelledMessage: Message = {
+          role: "assistant",
+          content: streamedText,
+          formattedContent: partialText || "_Response stopped._",
+          timestamp,
+          charts: partialCharts.length > 0 ? partialCharts : undefined,
+          chartErrors: partialChartErrors.length > 0 ? partialChartErrors : undefined,
+          chartRepairs: partialChartRepairs.length > 0 ? partialChartRepairs : undefined,
+          isCancelled: true
+        };
+        setThreadMessages(prev => hasPlaceholder
+          ? prev.map(msg => isStreamedMessage(msg) ? cancelledMessage : msg)
+          : [...prev, cancelledMessage]
+        );
+        return;
+      }
+      
       console.error("Error sending message:", error);
-      toast.error("Failed to get a response. Please try again.");
+      toast.error(describeApiError(error));
+      
+      // Keep whatever was streamed before the failure
+      if (hasPlaceholder) {
+        setThreadMessages(prev => prev.map(msg =>
+          isStreamedMessage(msg)
+            ? { ...msg, content: streamedText, formattedContent: formatStreamingResponse(streamedText), isTyping: false }
+            : msg
+        ));
+      }
       
       // Add error message with formatting
-      const errorMessage = "**Sorry!** I encountered an error. Please try again.";
-      setMessages(prev => [
+      const errorMessage = `**Sorry!** I encountered an error: ${describeApiError(error)}`;
+      setThreadMessages(prev => [
         ...prev, 
         {
           role: "assistant",
@@ -220,25 +716,21 @@ How can I help you analyze this data? You can ask me to:
         }
       ]);
     } finally {
-      setIsSending(false);
+      chatAbortRef.current.delete(fileId);
+      setTypingTexts(prev => {
+        const next = { ...prev };
+        delete next[fileId];
+        return next;
+      });
+      setSendingFileIds(prev => {
+        const next = new Set(prev);
+        next.delete(fileId);
+        return next;
+      });
+      setTimeout(scrollToBottom, 50);
     }
   };
 
-  // Function to format AI responses - removing chart code blocks and enhancing formatting
-  const formatAIResponse = (content: string): string => {
-    // Remove chart data blocks
-    const cleanedContent = content.replace(/```chart-data\n[\s\S]*?\n```/g, '');
-    
-    // Remove any empty markdown code blocks that might be left
-    const noEmptyBlocks = cleanedContent.replace(/```\s*```/g, '');
-    
-    // Remove excessive line breaks and cleanup
-    return noEmptyBlocks
-      .replace(/\n{3,}/g, '\n\n') // Replace 3+ consecutive line breaks with 2
-      .replace(/---\s*\n\s*\n/g, '---\n') // Clean up after markdown horizontal rules
-      .trim();
-  };
-
   // State for dynamic insights suggestions
   const [suggestedInsights, setSuggestedInsights] = useState<string[]>([
     "Generate data visualizations",
@@ -247,6 +739,7 @@ How can I help you analyze this data? You can ask me to:
     "Detect outliers or anomalies",
     "Compare key metrics"
   ]);
+  const [suggestionPackIds, setSuggestionPackIds] = useState<string[]>(DEFAULT_ENABLED_PACK_IDS);
   
   // Function to handle clicking on a suggested insight
   const handleInsightClick = (insight: string) => {
@@ -255,205 +748,6 @@ How can I help you analyze this data? You can ask me to:
     sendMessage(insight);
   };
 
-  // Helper function to find columns by keywords
-  const findColumnByKeywords = useCallback((columns: string[], keywords: string[]): string | undefined => {
-    return columns.find(col => 
-      keywords.some(keyword => col.toLowerCase().includes(keyword.toLowerCase()))
-    );
-  }, []);
-  
-  // Helper to check if a string value could be a number
-  const isNumericString = useCallback((value: unknown): boolean => {
-    if (typeof value !== 'string') return false;
-    return !isNaN(parseFloat(value)) && isFinite(Number(value));
-  }, []);
-
-  // Function to generate dynamic suggestions based on file data
-  const generateSuggestions = useCallback((data: FileData): string[] => {
-    const suggestions: string[] = [];
-    
-    // Get columns by type
-    const numericColumns: string[] = [];
-    const dateColumns: string[] = [];
-    const textColumns: string[] = [];
-    const locationColumns: string[] = [];
-    
-    // Helper to detect if a column contains numeric data by sampling the preview
-    const containsNumericData = (columnName: string): boolean => {
-      if (!data.data_preview || data.data_preview.length === 0) return false;
-      
-      // Check the first few rows to see if the values are numeric strings
-      for (let i = 0; i < Math.min(3, data.data_preview.length); i++) {
-        const row = data.data_preview[i];
-        if (row && columnName in row) {
-          const value = row[columnName];
-          if (typeof value === 'number') return true;
-          if (isNumericString(value)) return true;
-        }
-      }
-      return false;
-    };
-    
-    // First pass: Categorize columns based on types and actual values
-    Object.entries(data.summary.data_types).forEach(([column, type]) => {
-      // Check for date columns
-      if (type.includes("date") || type.includes("time") || 
-          column.toLowerCase().includes("date") || column.toLowerCase().includes("time")) {
-        dateColumns.push(column);
-      } 
-      // Check for numeric columns - either by type or by analyzing the actual data
-      else if (type.includes("int") || type.includes("float") || type.includes("number") || type.includes("double") || 
-               containsNumericData(column)) {
-        numericColumns.push(column);
-      } 
-      // Everything else is considered text
-      else {
-        textColumns.push(column);
-      }
-
-      // Check for location/area related columns
-      if (column.toLowerCase().includes("area") || 
-          column.toLowerCase().includes("location") || 
-          column.toLowerCase().includes("region") || 
-          column.toLowerCase().includes("city") || 
-          column.toLowerCase().includes("country") ||
-          column.toLowerCase().includes("hub")) {
-        locationColumns.push(column);
-      }
-    });
-    
-    // Generate suggestions based on column types
-    if (numericColumns.length > 0) {
-      // Add numeric analysis suggestions
-      suggestions.push(`Show top 5 items by ${numericColumns[0]}`);
-      suggestions.push(`Analyze distribution of ${numericColumns[0]}`);
-    }
-    
-    if (dateColumns.length > 0 && numericColumns.length > 0) {
-      // Add time-based suggestions with numeric analysis
-      suggestions.push(`Show ${numericColumns[0]} trends over ${dateColumns[0]}`);
-    } else if (dateColumns.length > 0) {
-      suggestions.push(`Analyze patterns in ${dateColumns[0]}`);
-    }
-    
-    if (textColumns.length > 0 && numericColumns.length > 0) {
-      // Add categorical analysis suggestions
-      suggestions.push(`Compare ${numericColumns[0]} by ${textColumns[0]}`);
-    }
-    
-    if (locationColumns.length > 0 && numericColumns.length > 0) {
-      suggestions.push(`View ${numericColumns[0]} by ${locationColumns[0]}`);
-    }
-    
-    // Look for specific column names
-    const revenueColumn = findColumnByKeywords(numericColumns, ["revenue", "sales", "price", "amount", "total"]);
-    const customerColumn = findColumnByKeywords(textColumns, ["customer", "client", "user", "name"]);
-    // We'll keep this for potential future use
-    const productColumn = findColumnByKeywords(textColumns, ["product", "item", "service", "goods", "dish", "menu"]);
-    const hubColumn = findColumnByKeywords(textColumns, ["hub", "branch", "location", "store"]);
-    const deliveredColumn = findColumnByKeywords(numericColumns, ["delivered", "delivery", "fulfilled"]);
-    const rejectedColumn = findColumnByKeywords(numericColumns, ["rejected", "cancelled", "returned"]);
-    const discountColumn = findColumnByKeywords(numericColumns, ["discount", "promo", "coupon"]);
-    const commissionColumn = findColumnByKeywords(numericColumns, ["commission", "fee", "charge"]);
-    
-    // Restaurant/Sales data specific suggestions
-    if (customerColumn) {
-      if (revenueColumn) {
-        suggestions.push(`Show top ${customerColumn}s by ${revenueColumn}`);
-      }
-      
-      if (deliveredColumn && rejectedColumn) {
-        suggestions.push(`Compare ${deliveredColumn} vs ${rejectedColumn} by ${customerColumn}`);
-      }
-    }
-
-    if (revenueColumn) {
-      if (hubColumn) {
-        suggestions.push(`Compare ${revenueColumn} across different ${hubColumn}s`);
-      }
-      
-      if (discountColumn) {
-        suggestions.push(`Analyze impact of ${discountColumn}s on ${revenueColumn}`);
-      }
-      
-      suggestions.push(`Show top performers by ${revenueColumn}`);
-    }
-
-    if (deliveredColumn && hubColumn) {
-      suggestions.push(`Analyze delivery performance by ${hubColumn}`);
-    }
-    
-    if (commissionColumn && revenueColumn) {
-      suggestions.push(`Show relationship between ${commissionColumn} and ${revenueColumn}`);
-    }
-    
-    // Use product column if available
-    if (productColumn) {
-      suggestions.push(`Analyze performance of different ${productColumn} types`);
-    }
-    
-    // Always add some general analysis suggestions if we have too few
-    if (suggestions.length < 3) {
-      suggestions.push("Detect patterns or anomalies");
-      suggestions.push("Generate summary statistics");
-      suggestions.push("Visualize key relationships");
-    }
-    
-    return suggestions.slice(0, 5); // Limit to 5 suggestions
-  }, [findColumnByKeywords, isNumericString]);
-
-  // Function to simulate typing effect with smooth scrolling
-  const simulateTyping = useCallback((text: string, callback?: () => void) => {
-    setIsTyping(true);
-    setTypingText("");
-    // setFullResponse(text);
-    
-    let index = 0;
-    // Adaptive typing speed based on text length - faster for longer texts
-    const baseInterval = 1; // Base speed in milliseconds
-    const typingInterval = text.length > 1000 ? baseInterval / 2 : baseInterval; // Ultra-fast for long responses
-    
-    const typeNextCharacter = () => {
-      if (index < text.length) {
-        // Type multiple characters at once for faster typing - adaptive chunk sizing
-        let chunkSize;
-        if (text.length > 2000) {
-          chunkSize = 10; // Very large chunks for very long responses
-        } else if (text.length > 1000) {
-          chunkSize = 8; // Large chunks for long responses
-        } else if (text.length > 500) {
-          chunkSize = 5; // Medium chunks for medium responses
-        } else {
-          chunkSize = 3; // Small chunks for short responses
-        }
-        const endIndex = Math.min(index + chunkSize, text.length);
-        const chunk = text.substring(index, endIndex);
-        
-        setTypingText(prevText => prevText + chunk);
-        index = endIndex;
-        
-        // Minimal pauses for faster experience
-        const nextInterval = text.charAt(index - 1) === '.' || 
-                            text.charAt(index - 1) === '?' || 
-                            text.charAt(index - 1) === '!' ? 
-                            typingInterval * 2 : // Even shorter pauses at punctuation
-                            typingInterval;
-        
-        // Ensure auto-scroll during typing
-        requestAnimationFrame(scrollToBottom);
-        
-        setTimeout(typeNextCharacter, nextInterval);
-      } else {
-        setIsTyping(false);
-        if (callback) callback();
-        // Final scroll to ensure we're at the bottom
-        setTimeout(scrollToBottom, 50);
-      }
-    };
-    
-    setTimeout(typeNextCharacter, typingInterval);
-  }, [scrollToBottom]);
-
   // Enhanced auto-scroll behavior with different strategies for different situations
   useEffect(() => {
     // Check if we're typing - if so, ensure scroll to bottom happens on every character
@@ -499,207 +793,431 @@ How can I help you analyze this data? You can ask me to:
     };
   }, [isTyping, scrollToBottom]);
 
-  // Update suggestions when file data changes
+  // Restore the open datasets and the active conversation after a page refresh
+  useEffect(() => {
+    let cancelled = false;
+    
+    const restoreWorkspace = async () => {
+      refreshSavedSessions();
+      
+      const openSessions = await Promise.all(
+        loadOpenFileIds().map(fileId => getSavedSession(fileId).catch(() => undefined))
+      );
+      if (cancelled) return;
+      
+      const restored = openSessions.filter((session): session is SavedSession => session !== undefined);
+      restored.forEach(session => restoreDataset(session));
+      
+      const storedFileId = loadActiveFileId();
+      if (storedFileId && restored.some(session => session.fileId === storedFileId)) {
+        setActiveFileId(storedFileId);
+      } else if (restored.length > 0) {
+        setActiveFileId(restored[0].fileId);
+      }
+      setIsWorkspaceRestored(true);
+    };
+    
+    restoreWorkspace();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshSavedSessions, restoreDataset]);
+  
+  // Remember the open datasets once the stored workspace has been restored
+  useEffect(() => {
+    if (!isWorkspaceRestored) return;
+    saveOpenFileIds(datasets.map(dataset => dataset.file.file_id));
+    saveActiveFileId(activeFileId);
+  }, [datasets, activeFileId, isWorkspaceRestored]);
+  
+  // Save changed datasets to IndexedDB, skipping ones that are still loading or streaming
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      const changed = datasets.filter(dataset =>
+        !dataset.isRestoring &&
+        !dataset.messages.some(msg => msg.isTyping) &&
+        savedDatasetsRef.current.get(dataset.file.file_id) !== dataset
+      );
+      if (changed.length === 0) return;
+      
+      try {
+        for (const dataset of changed) {
+          await saveSession({
+            fileId: dataset.file.file_id,
+            file: dataset.file,
+            messages: dataset.messages.map(toSavedMessage),
+            visualizationCharts: dataset.visualizationCharts,
+            dashboard: dataset.dashboard
+          });
+          savedDatasetsRef.current.set(dataset.file.file_id, dataset);
+        }
+        refreshSavedSessions();
+      } catch (error) {
+        console.error("Error saving session:", error);
+      }
+    }, SAVE_DEBOUNCE_MS);
+    
+    return () => clearTimeout(timer);
+  }, [datasets, refreshSavedSessions]);
+
+  // Restore the workspace's choice of suggestion packs
+  useEffect(() => {
+    const savedPackIds = loadSuggestionPackIds();
+    if (savedPackIds) setSuggestionPackIds(savedPackIds);
+  }, []);
+
+  const updateSuggestionPacks = (packIds: string[]) => {
+    setSuggestionPackIds(packIds);
+    saveSuggestionPackIds(packIds);
+  };
+
+  // Update suggestions when file data or the enabled packs change
   useEffect(() => {
     if (fileData) {
-      const dynamicSuggestions = generateSuggestions(fileData);
+      const dynamicSuggestions = generateSuggestions(
+        enabledSuggestionPacks(suggestionPackIds),
+        fileData.summary.data_types,
+        fileData.data_preview
+      );
       setSuggestedInsights(dynamicSuggestions);
     }
-  }, [fileData, generateSuggestions]);
+  }, [fileData, suggestionPackIds]);
+
+  // File Upload UI, shown for the first dataset and when adding another one
+  const uploadCard = (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle>Upload Your Data</CardTitle>
+        <CardDescription>
+          Upload Excel or CSV files to begin analyzing your data with our AI assistant.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <UploadQueue
+          items={uploadQueue}
+          onAddFiles={queueUploads}
+          onCancel={cancelUpload}
+          onRetry={retryUpload}
+          onRemove={removeUpload}
+          onClearFinished={clearFinishedUploads}
+        />
+            
+        <SessionManager
+          sessions={savedSessions}
+          openFileIds={openFileIds}
+          disabled={isUploading}
+          onOpen={openSession}
+          onRename={renameSession}
+          onExport={exportSession}
+          onDelete={deleteSession}
+        />
+      </CardContent>
+    </Card>
+  );
 
   return (
     <div className="flex flex-col gap-8">
-      {!activeFileId ? (
-        // File Upload UI
-        <Card className="w-full max-w-2xl mx-auto">
-          <CardHeader>
-            <CardTitle>Upload Your Data</CardTitle>
-            <CardDescription>
-              Upload an Excel or CSV file to begin analyzing your data with our AI assistant.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-gray-300 rounded-lg bg-gray-50 dark:bg-gray-800">
-              <svg
-                className="w-12 h-12 mb-4 text-gray-400"
-                xmlns="http://www.w3.org/2000/svg"
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-                />
-              </svg>
-              <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
-                <span className="font-semibold">Click to upload</span> or drag and drop
-              </p>
-              <p className="text-xs text-gray-500 dark:text-gray-400">
-                Excel files (XLSX, XLS) or CSV files
-              </p>
-              
-              <Input
-                type="file"
-                accept=".xlsx,.xls,.csv"
-                className="mt-4"
-                onChange={handleFileUpload}
-                disabled={isUploading}
-              />
-              
-              {isUploading && (
-                <div className="w-full mt-4">
-                  <p className="text-sm mb-2">Uploading... {uploadProgress}%</p>
-                  <Progress value={uploadProgress} className="h-2" />
-                </div>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+      {datasets.length === 0 ? (
+        uploadCard
       ) : (
-        // Data Analysis Interface with Chat and Visualization in separate sections
-        <div className="flex flex-col gap-6">
-          {/* Top section with file info and chat */}
-          <div className="grid md:grid-cols-[300px_1fr] gap-6">
-            {/* File Information Card */}
-            <Card className="h-[700px] overflow-hidden">
-              <CardHeader className="p-4">
-                <CardTitle className="text-lg">File Information</CardTitle>
-              </CardHeader>
-              <CardContent className="p-4 overflow-auto">
-                {fileData && (
-                  <div className="space-y-4">
-                    <div>
-                      <h4 className="font-medium mb-1">Filename</h4>
-                      <p className="text-sm text-gray-600 dark:text-gray-400 break-all">
-                        {fileData.filename}
-                        <span className="ml-2">
-                          <Badge variant="outline">
-                            {fileData.filename.toLowerCase().endsWith('.csv') 
-                              ? 'CSV' 
-                              : fileData.filename.toLowerCase().endsWith('.xlsx') 
-                                ? 'XLSX' 
-                                : 'XLS'}
-                          </Badge>
-                        </span>
-                      </p>
-                    </div>
+        <div className="grid lg:grid-cols-[220px_1fr] gap-6 items-start">
+          <DatasetSidebar
+            items={datasets.map(dataset => ({
+              fileId: dataset.file.file_id,
+              filename: datasetLabel(dataset.file.filename, dataset.file.sheet_name),
+              rows: dataset.file.summary.rows,
+              columns: dataset.file.summary.columns.length,
+              messageCount: dataset.messages.length,
+              isBusy: sendingFileIds.has(dataset.file.file_id)
+            }))}
+            activeFileId={activeFileId}
+            onSelect={setActiveFileId}
+            onClose={closeDataset}
+            onAdd={() => setActiveFileId(null)}
+          />
+          
+          {!activeDataset ? (
+            uploadCard
+          ) : (
+            // Data Analysis Interface with Chat and Visualization in separate sections
+            <div className="flex flex-col gap-6">
+              {/* Top section with file info and chat */}
+              <div className="grid md:grid-cols-[300px_1fr] gap-6">
+                {/* File Information Card */}
+                <Card className="h-[700px] overflow-hidden">
+                  <CardHeader className="p-4">
+                    <CardTitle className="text-lg">File Information</CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-4 overflow-auto">
+                    {fileData && (
+                      <div className="space-y-4">
+                        <div>
+                          <h4 className="font-medium mb-1">Filename</h4>
+                          <p className="text-sm text-gray-600 dark:text-gray-400 break-all">
+                            {fileData.filename}
+                            <span className="ml-2">
+                              <Badge variant="outline">
+                                {fileData.filename.toLowerCase().endsWith('.csv') 
+                                  ? 'CSV' 
+                                  : fileData.filename.toLowerCase().endsWith('.xlsx') 
+                                    ? 'XLSX' 
+                                    : 'XLS'}
+                              </Badge>
+                            </span>
+                          </p>
+                        </div>
                     
-                    <div>
-                      <h4 className="font-medium mb-1">Data Summary</h4>
-                      <ul className="text-sm text-gray-600 dark:text-gray-400">
-                        <li>Rows: {fileData.summary.rows}</li>
-                        <li>Columns: {fileData.summary.columns.length}</li>
-                      </ul>
-                    </div>
+                        {fileData.sheet_name && (
+                          <div>
+                            <h4 className="font-medium mb-1">Sheet</h4>
+                            {fileData.sheet_names && fileData.sheet_names.length > 1 ? (
+                              <>
+                                <select
+                                  value={fileData.sheet_name}
+                                  onChange={(e) => switchSheet(e.target.value)}
+                                  disabled={isSending || isRestoring}
+                                  className="h-8 w-full rounded-md border bg-transparent px-2 text-sm"
+                                  aria-label="Switch sheet"
+                                >
+                                  {fileData.sheet_names.map(sheetName => (
+                                    <option key={sheetName} value={sheetName}>{sheetName}</option>
+                                  ))}
+                                </select>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                  {fileData.sheet_names.length} sheets in this workbook - pick another to analyze it
+                                </p>
+                                <input
+                                  ref={workbookInputRef}
+                                  type="file"
+                                  accept=".xlsx,.xls"
+                                  className="hidden"
+                                  onChange={handleWorkbookChosen}
+                                />
+                              </>
+                            ) : (
+                              <p className="text-sm text-gray-600 dark:text-gray-400 break-all">{fileData.sheet_name}</p>
+                            )}
+                          </div>
+                        )}
                     
-                    <div>
-                      <h4 className="font-medium mb-1">Columns</h4>
-                      <div className="flex flex-wrap gap-1">
-                        {fileData.summary.columns.map((column, index) => (
-                          <Badge key={index} variant="outline">
-                            {column}
-                          </Badge>
-                        ))}
-                      </div>
-                    </div>
+                        <div>
+                          <h4 className="font-medium mb-1">Data Summary</h4>
+                          <ul className="text-sm text-gray-600 dark:text-gray-400">
+                            <li>Rows: {fileData.summary.rows}</li>
+                            <li>Columns: {fileData.summary.columns.length}</li>
+                          </ul>
+                        </div>
                     
-                    <Tabs defaultValue="preview">
-                      <TabsList className="w-full">
-                        <TabsTrigger value="preview" className="flex-1">Preview</TabsTrigger>
-                        <TabsTrigger value="types" className="flex-1">Data Types</TabsTrigger>
-                      </TabsList>
-                      <TabsContent value="preview" className="mt-2">
-                        <div className="overflow-x-auto">
-                          {fileData.data_preview && fileData.data_preview.length > 0 ? (
-                            <Table>
-                              <TableHeader>
-                                <TableRow>
-                                  {Object.keys(fileData.data_preview[0]).map((key) => (
-                                    <TableHead key={key} className="whitespace-nowrap">
-                                      {key}
-                                    </TableHead>
-                                  ))}
-                                </TableRow>
-                              </TableHeader>
-                              <TableBody>
-                                {fileData.data_preview.slice(0, 5).map((row, rowIndex) => (
-                                  <TableRow key={rowIndex}>
-                                    {Object.values(row).map((value, colIndex) => (
-                                      <TableCell key={colIndex} className="whitespace-nowrap">
-                                        {value !== null ? String(value) : "null"}
-                                      </TableCell>
+                        <div>
+                          <h4 className="font-medium mb-1">Columns</h4>
+                          <div className="flex flex-wrap gap-1">
+                            {fileData.summary.columns.map((column, index) => (
+                              <Badge key={index} variant="outline">
+                                {column}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                    
+                        <Tabs defaultValue="preview">
+                          <TabsList className="w-full">
+                            <TabsTrigger value="preview" className="flex-1">Preview</TabsTrigger>
+                            <TabsTrigger value="columns" className="flex-1">Columns</TabsTrigger>
+                          </TabsList>
+                          <TabsContent value="preview" className="mt-2">
+                            <div className="overflow-x-auto">
+                              {fileData.data_preview && fileData.data_preview.length > 0 ? (
+                                <Table>
+                                  <TableHeader>
+                                    <TableRow>
+                                      {Object.keys(fileData.data_preview[0]).map((key) => (
+                                        <TableHead key={key} className="whitespace-nowrap">
+                                          {key}
+                                        </TableHead>
+                                      ))}
+                                    </TableRow>
+                                  </TableHeader>
+                                  <TableBody>
+                                    {fileData.data_preview.slice(0, 5).map((row, rowIndex) => (
+                                      <TableRow key={rowIndex}>
+                                        {Object.values(row).map((value, colIndex) => (
+                                          <TableCell key={colIndex} className="whitespace-nowrap">
+                                            {value !== null ? String(value) : "null"}
+                                          </TableCell>
+                                        ))}
+                                      </TableRow>
                                     ))}
-                                  </TableRow>
-                                ))}
-                              </TableBody>
-                            </Table>
-                          ) : (
-                            <p className="text-sm text-gray-500">No preview available</p>
-                          )}
+                                  </TableBody>
+                                </Table>
+                              ) : (
+                                <p className="text-sm text-gray-500">No preview available</p>
+                              )}
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="mt-2 w-full"
+                              onClick={() => setIsDataGridOpen(true)}
+                            >
+                              Open data grid
+                            </Button>
+                          </TabsContent>
+                          <TabsContent value="columns" className="mt-2">
+                            <ColumnProfilePanel
+                              key={fileData.file_id}
+                              file={fileData}
+                              onAskAboutColumn={handleInsightClick}
+                              disabled={isSending || isRestoring}
+                            />
+                          </TabsContent>
+                        </Tabs>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+            
+                {/* Chat with AI Card */}
+                <Card className="h-[900px] flex flex-col">
+                  <CardHeader className="p-4 border-b">
+                    <CardTitle>Chat with AI Assistant</CardTitle>
+                    <CardDescription>
+                      Ask questions about your data and get intelligent insights
+                    </CardDescription>
+                    <CardAction>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsReportOpen(true)}
+                        disabled={isRestoring || messages.length === 0}
+                      >
+                        Export report
+                      </Button>
+                    </CardAction>
+                  </CardHeader>
+              
+                  <CardContent className="flex-1 overflow-y-auto p-4" ref={messagesContainerRef}>
+                    <div className="space-y-4">
+                      {isRestoring ? (
+                        <div className="flex items-center justify-center h-[400px] text-sm text-gray-500">
+                          Loading previous conversation...
                         </div>
-                      </TabsContent>
-                      <TabsContent value="types">
-                        <div className="overflow-x-auto">
-                          <Table>
-                            <TableHeader>
-                              <TableRow>
-                                <TableHead>Column</TableHead>
-                                <TableHead>Type</TableHead>
-                              </TableRow>
-                            </TableHeader>
-                            <TableBody>
-                              {fileData.summary.data_types && Object.entries(fileData.summary.data_types).map(([column, type], index) => (
-                                <TableRow key={index}>
-                                  <TableCell>{column}</TableCell>
-                                  <TableCell>{type}</TableCell>
-                                </TableRow>
+                      ) : messages.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center h-[400px] text-center">
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="48"
+                            height="48"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="1"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            className="text-gray-300 mb-4"
+                          >
+                            <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+                          </svg>
+                          <p className="text-sm text-gray-500 mb-2">Ready to analyze your data</p>
+                          <p className="text-xs text-gray-400 mb-4">
+                            Try asking questions or click on a suggested insight below
+                          </p>
+                          <div className="flex flex-wrap gap-2 justify-center">
+                            {suggestedInsights.slice(0, 3).map((insight, index) => (
+                              <Badge 
+                                key={index}
+                                variant="outline" 
+                                className="cursor-pointer hover:bg-accent transition-colors py-1.5 px-3"
+                                onClick={() => handleInsightClick(insight)}
+                              >
+                                {insight}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      ) : (
+                        messages.map((message, index) => (
+                        <div
+                          key={index}
+                          className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+                        >
+                          <div
+                            className={`max-w-[80%] rounded-lg p-3 ${
+                              message.role === "user"
+                                ? "bg-primary text-primary-foreground"
+                                : "bg-muted"
+                            }`}
+                          >
+                            {message.role === "assistant" && (
+                              <div className="flex items-center mb-2">
+                                <Avatar className="h-6 w-6 mr-2">
+                                  <AvatarFallback>AI</AvatarFallback>
+                                </Avatar>
+                                <span className="text-xs font-medium">AI Assistant</span>
+                              </div>
+                            )}
+                            <div className="whitespace-pre-wrap prose prose-sm dark:prose-invert max-w-none">
+                              {message.isTyping ? (
+                                <div className="typing-container relative">
+                                  <ReactMarkdown>{typingText}</ReactMarkdown>
+                                  <span className="inline-block w-1.5 h-4 ml-0.5 bg-gray-400 animate-blink"></span>
+                                </div>
+                              ) : (
+                                <ReactMarkdown>
+                                  {message.role === "assistant" && message.formattedContent ? message.formattedContent : message.content}
+                                </ReactMarkdown>
+                              )}
+                              {message.chartErrors?.map((chartError, errorIndex) => (
+                                <ChartErrorCard key={errorIndex} error={chartError} />
                               ))}
-                            </TableBody>
-                          </Table>
+                              {message.chartRepairs && <ChartRepairNote repairs={message.chartRepairs} />}
+                              {message.charts && message.charts.length > 0 && (
+                                <MessageCharts
+                                  charts={message.charts}
+                                  onPin={pinToDashboard}
+                                  isPinned={chart => dashboard !== null && isChartPinned(dashboard, chart)}
+                                />
+                              )}
+                            </div>
+                            <div className="text-xs opacity-70 mt-1 text-right">
+                              {message.isCancelled && <span className="mr-2 italic">Stopped</span>}
+                              {new Date(message.timestamp).toLocaleTimeString()}
+                            </div>
+                          </div>
                         </div>
-                      </TabsContent>
-                    </Tabs>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-            
-            {/* Chat with AI Card */}
-            <Card className="h-[900px] flex flex-col">
-              <CardHeader className="p-4 border-b">
-                <CardTitle>Chat with AI Assistant</CardTitle>
-                <CardDescription>
-                  Ask questions about your data and get intelligent insights
-                </CardDescription>
-              </CardHeader>
+                      )))}
+                  
+                      {isSending && !isTyping && (
+                        <div className="flex justify-start">
+                          <div className="max-w-[80%] rounded-lg p-3 bg-muted">
+                            <div className="flex items-center">
+                              <Avatar className="h-6 w-6 mr-2">
+                                <AvatarFallback>AI</AvatarFallback>
+                              </Avatar>
+                              <span className="text-xs font-medium">AI Assistant</span>
+                            </div>
+                            <div className="mt-2">
+                              <div className="flex gap-2 items-center">
+                                <div className="animate-pulse h-2 w-2 rounded-full bg-gray-400"></div>
+                                <div className="animate-pulse h-2 w-2 rounded-full bg-gray-400 animation-delay-200"></div>
+                                <div className="animate-pulse h-2 w-2 rounded-full bg-gray-400 animation-delay-400"></div>
+                                <span className="text-sm text-gray-500 ml-1">Thinking...</span>
+                              </div>
+                            </div>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
               
-              <CardContent className="flex-1 overflow-y-auto p-4" ref={messagesContainerRef}>
-                <div className="space-y-4">
-                  {messages.length === 0 ? (
-                    <div className="flex flex-col items-center justify-center h-[400px] text-center">
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        width="48"
-                        height="48"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="1"
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        className="text-gray-300 mb-4"
-                      >
-                        <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
-                      </svg>
-                      <p className="text-sm text-gray-500 mb-2">Ready to analyze your data</p>
-                      <p className="text-xs text-gray-400 mb-4">
-                        Try asking questions or click on a suggested insight below
-                      </p>
-                      <div className="flex flex-wrap gap-2 justify-center">
-                        {suggestedInsights.slice(0, 3).map((insight, index) => (
+                  <CardFooter className="flex-col space-y-4 p-4 border-t mt-auto">
+                    {/* Auto Insights Section */}
+                    <div className="w-full">
+                      <div className="flex items-center justify-between mb-2">
+                        <p className="text-xs text-muted-foreground">Suggested Insights:</p>
+                        <SuggestionPackPicker enabledPackIds={suggestionPackIds} onChange={updateSuggestionPacks} />
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {suggestedInsights.map((insight, index) => (
                           <Badge 
                             key={index}
                             variant="outline" 
@@ -711,190 +1229,153 @@ How can I help you analyze this data? You can ask me to:
                         ))}
                       </div>
                     </div>
-                  ) : (
-                    messages.map((message, index) => (
-                    <div
-                      key={index}
-                      className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
-                    >
-                      <div
-                        className={`max-w-[80%] rounded-lg p-3 ${
-                          message.role === "user"
-                            ? "bg-primary text-primary-foreground"
-                            : "bg-muted"
-                        }`}
-                      >
-                        {message.role === "assistant" && (
-                          <div className="flex items-center mb-2">
-                            <Avatar className="h-6 w-6 mr-2">
-                              <AvatarFallback>AI</AvatarFallback>
-                            </Avatar>
-                            <span className="text-xs font-medium">AI Assistant</span>
-                          </div>
-                        )}
-                        <div className="whitespace-pre-wrap prose prose-sm dark:prose-invert max-w-none">
-                          {message.isTyping ? (
-                            <div className="typing-container relative">
-                              <span className="typing-text">{typingText}</span>
-                              <span className="inline-block w-1.5 h-4 ml-0.5 bg-gray-400 animate-blink absolute"></span>
-                            </div>
-                          ) : (
-                            <ReactMarkdown>
-                              {message.role === "assistant" && message.formattedContent ? message.formattedContent : message.content}
-                            </ReactMarkdown>
-                          )}
-                        </div>
-                        <div className="text-xs opacity-70 mt-1 text-right">
-                          {new Date(message.timestamp).toLocaleTimeString()}
-                        </div>
-                      </div>
-                    </div>
-                  )))}
-                  
-                  {isSending && (
-                    <div className="flex justify-start">
-                      <div className="max-w-[80%] rounded-lg p-3 bg-muted">
-                        <div className="flex items-center">
-                          <Avatar className="h-6 w-6 mr-2">
-                            <AvatarFallback>AI</AvatarFallback>
-                          </Avatar>
-                          <span className="text-xs font-medium">AI Assistant</span>
-                        </div>
-                        <div className="mt-2">
-                          <div className="flex gap-2 items-center">
-                            <div className="animate-pulse h-2 w-2 rounded-full bg-gray-400"></div>
-                            <div className="animate-pulse h-2 w-2 rounded-full bg-gray-400 animation-delay-200"></div>
-                            <div className="animate-pulse h-2 w-2 rounded-full bg-gray-400 animation-delay-400"></div>
-                            <span className="text-sm text-gray-500 ml-1">Thinking...</span>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-              
-              <CardFooter className="flex-col space-y-4 p-4 border-t mt-auto">
-                {/* Auto Insights Section */}
-                <div className="w-full">
-                  <p className="text-xs text-muted-foreground mb-2">Suggested Insights:</p>
-                  <div className="flex flex-wrap gap-2">
-                    {suggestedInsights.map((insight, index) => (
-                      <Badge 
-                        key={index}
-                        variant="outline" 
-                        className="cursor-pointer hover:bg-accent transition-colors py-1.5 px-3"
-                        onClick={() => handleInsightClick(insight)}
-                      >
-                        {insight}
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
                 
-                <form
-                  className="flex w-full gap-2"
-                  onSubmit={(e) => {
-                    e.preventDefault();
-                    sendMessage();
-                  }}
-                >
-                  <Textarea
-                    placeholder="Ask a question about your data..."
-                    className="min-h-[50px] flex-1 resize-none"
-                    value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter" && !e.shiftKey) {
+                    <form
+                      className="flex w-full gap-2"
+                      onSubmit={(e) => {
                         e.preventDefault();
                         sendMessage();
-                      }
-                    }}
-                    disabled={isSending}
-                  />
-                  <Button type="submit" disabled={isSending || !newMessage.trim()}>
-                    {isSending ? (
-                      <svg
-                        className="animate-spin -ml-1 mr-2 h-4 w-4"
-                        xmlns="http://www.w3.org/2000/svg"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                      >
-                        <circle
-                          className="opacity-25"
-                          cx="12"
-                          cy="12"
-                          r="10"
-                          stroke="currentColor"
-                          strokeWidth="4"
-                        ></circle>
-                        <path
-                          className="opacity-75"
-                          fill="currentColor"
-                          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
-                        ></path>
-                      </svg>
-                    ) : (
+                      }}
+                    >
+                      <Textarea
+                        placeholder="Ask a question about your data..."
+                        className="min-h-[50px] flex-1 resize-none"
+                        value={newMessage}
+                        onChange={(e) => setNewMessage(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" && !e.shiftKey) {
+                            e.preventDefault();
+                            sendMessage();
+                          }
+                        }}
+                      />
+                      {isSending ? (
+                        <Button type="button" variant="outline" onClick={stopGenerating} title="Stop generating">
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="16"
+                            height="16"
+                            viewBox="0 0 24 24"
+                            fill="currentColor"
+                          >
+                            <rect x="6" y="6" width="12" height="12" rx="2" />
+                          </svg>
+                          Stop
+                        </Button>
+                      ) : (
+                        <Button type="submit" disabled={!newMessage.trim()}>
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="16"
+                            height="16"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          >
+                            <path d="m22 2-7 20-4-9-9-4Z" />
+                            <path d="M22 2 11 13" />
+                          </svg>
+                        </Button>
+                      )}
+                    </form>
+                  </CardFooter>
+                </Card>
+              </div>
+          
+              {fileData && isReportOpen && (
+                <ReportExportDialog
+                  key={fileData.file_id}
+                  open={isReportOpen}
+                  onOpenChange={setIsReportOpen}
+                  file={fileData}
+                  messages={messages.filter(msg => !msg.isTyping)}
+                />
+              )}
+
+              {fileData && isDataGridOpen && (
+                <DataGrid
+                  key={fileData.file_id}
+                  open={isDataGridOpen}
+                  onOpenChange={setIsDataGridOpen}
+                  file={fileData}
+                />
+              )}
+
+              {/* Visualization Section - Separated from Chat Interface */}
+              <Card className="min-h-[450px] overflow-hidden">
+                <CardHeader className="p-4 border-b">
+                  <CardTitle className="text-lg">Data Visualizations</CardTitle>
+                  <CardDescription>
+                    {visualizationView === "dashboard"
+                      ? "Charts pinned from this conversation - drag to arrange, resize from the corner"
+                      : "Visual representations of your data based on your queries"}
+                  </CardDescription>
+                  <CardAction className="flex gap-1">
+                    <Button
+                      variant={visualizationView === "latest" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setVisualizationView("latest")}
+                    >
+                      Latest
+                    </Button>
+                    <Button
+                      variant={visualizationView === "dashboard" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setVisualizationView("dashboard")}
+                    >
+                      Dashboard{dashboard && dashboard.pins.length > 0 ? ` (${dashboard.pins.length})` : ""}
+                    </Button>
+                  </CardAction>
+                </CardHeader>
+                <CardContent className="p-4 overflow-auto">
+                  {visualizationView === "dashboard" && dashboard ? (
+                    <ChartDashboard dashboard={dashboard} onChange={updateDashboard} />
+                  ) : visualizationCharts.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center h-[300px] text-center">
                       <svg
                         xmlns="http://www.w3.org/2000/svg"
-                        width="16"
-                        height="16"
+                        width="48"
+                        height="48"
                         viewBox="0 0 24 24"
                         fill="none"
                         stroke="currentColor"
-                        strokeWidth="2"
+                        strokeWidth="1"
                         strokeLinecap="round"
                         strokeLinejoin="round"
+                        className="text-gray-300 mb-4"
                       >
-                        <path d="m22 2-7 20-4-9-9-4Z" />
-                        <path d="M22 2 11 13" />
+                        <path d="M3 3v18h18" />
+                        <path d="M18 8L12 2 6 8" />
+                        <path d="M12 2v16" />
                       </svg>
-                    )}
-                  </Button>
-                </form>
-              </CardFooter>
-            </Card>
-          </div>
-          
-          {/* Visualization Section - Separated from Chat Interface */}
-          <Card className="min-h-[450px] overflow-hidden">
-            <CardHeader className="p-4 border-b">
-              <CardTitle className="text-lg">Data Visualizations</CardTitle>
-              <CardDescription>
-                Visual representations of your data based on your queries
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="p-4 overflow-auto">
-              {visualizationCharts.length === 0 ? (
-                <div className="flex flex-col items-center justify-center h-[300px] text-center">
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="48"
-                    height="48"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="1"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="text-gray-300 mb-4"
-                  >
-                    <path d="M3 3v18h18" />
-                    <path d="M18 8L12 2 6 8" />
-                    <path d="M12 2v16" />
-                  </svg>
-                  <p className="text-sm text-gray-500 mb-2">No visualizations available yet</p>
-                  <p className="text-xs text-gray-400">
-                    Try asking questions like &quot;Show me a chart of...&quot; or &quot;Visualize the distribution of...&quot;
-                  </p>
-                </div>
-              ) : (
-                <DataVisualization charts={visualizationCharts} />
-              )}
-            </CardContent>
-          </Card>
+                      <p className="text-sm text-gray-500 mb-2">No visualizations available yet</p>
+                      <p className="text-xs text-gray-400">
+                        Try asking questions like &quot;Show me a chart of...&quot; or &quot;Visualize the distribution of...&quot;
+                      </p>
+                    </div>
+                  ) : (
+                    <DataVisualization
+                      charts={visualizationCharts}
+                      onChartChange={updateVisualizationChart}
+                      onPinChart={pinToDashboard}
+                      isChartPinned={chart => dashboard !== null && isChartPinned(dashboard, chart)}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
         </div>
       )}
+      
+      <SheetPickerDialog
+        workbooks={sheetChoices}
+        onConfirm={confirmSheetChoices}
+        onCancel={() => setSheetChoices([])}
+      />
     </div>
   );
 }
@@ -0,0 +1,398 @@
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { getDatasetRows, UploadResponse } from '@/services/api';
+import { ApiError, describeApiError, isAbortError } from '@/services/api-error';
+import {
+  ColumnFilter,
+  columnKind,
+  ColumnKind,
+  ColumnSort,
+  formatCellValue,
+  GridRow,
+  parseFilterInput,
+  queryRows
+} from '@/lib/data-grid';
+
+// Rows fetched per page, and the fixed height that lets the body be virtualised
+const PAGE_SIZE = 500;
+const ROW_HEIGHT = 32;
+const OVERSCAN_ROWS = 10;
+const DEFAULT_COLUMN_WIDTH = 160;
+const MIN_COLUMN_WIDTH = 60;
+const ROW_NUMBER_WIDTH = 64;
+const FILTER_DEBOUNCE_MS = 300;
+
+type RowSource = 'server' | 'preview';
+
+interface RowsPage {
+  rows: GridRow[];
+  total: number;
+}
+
+function nextSort(sort: ColumnSort | null, column: string): ColumnSort | null {
+  if (sort?.column !== column) return { column, direction: 'asc' };
+  return sort.direction === 'asc' ? { column, direction: 'desc' } : null;
+}
+
+const CELL_ALIGNMENT: Record<ColumnKind, string> = {
+  number: 'justify-end text-right tabular-nums',
+  date: 'tabular-nums',
+  boolean: '',
+  text: '',
+};
+
+interface DataGridProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  file: UploadResponse;
+}
+
+export function DataGrid({ open, onOpenChange, file }: DataGridProps) {
+  const columns = file.summary.columns;
+  const dataTypes = file.summary.data_types;
+
+  const [source, setSource] = React.useState<RowSource>('server');
+  const [page, setPage] = React.useState(0);
+  const [rowsPage, setRowsPage] = React.useState<RowsPage>({ rows: [], total: 0 });
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [reloadKey, setReloadKey] = React.useState(0);
+
+  const [sort, setSort] = React.useState<ColumnSort | null>(null);
+  const [filterInputs, setFilterInputs] = React.useState<Record<string, string>>({});
+  const [filters, setFilters] = React.useState<ColumnFilter[]>([]);
+  const [hiddenColumns, setHiddenColumns] = React.useState<Set<string>>(new Set());
+  const [columnWidths, setColumnWidths] = React.useState<Record<string, number>>({});
+  const [isColumnMenuOpen, setIsColumnMenuOpen] = React.useState(false);
+
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const [viewportHeight, setViewportHeight] = React.useState(0);
+
+  const visibleColumns = columns.filter((column) => !hiddenColumns.has(column));
+  const pageCount = Math.max(1, Math.ceil(rowsPage.total / PAGE_SIZE));
+
+  // Apply typed filters once typing pauses, starting again from the first page
+  React.useEffect(() => {
+    const timer = setTimeout(() => {
+      const next = Object.entries(filterInputs)
+        .map(([column, input]) => parseFilterInput(column, input))
+        .filter((filter): filter is ColumnFilter => filter !== null);
+      if (JSON.stringify(next) !== JSON.stringify(filters)) {
+        setFilters(next);
+        setPage(0);
+      }
+    }, FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filterInputs, filters]);
+
+  React.useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [page, sort, filters]);
+
+  const changeSort = (next: ColumnSort | null) => {
+    setSort(next);
+    setPage(0);
+  };
+
+  // Function to load the current page from the backend, or from the preview rows
+  React.useEffect(() => {
+    if (!open) return;
+
+    if (source === 'preview') {
+      const rows = queryRows(file.data_preview, filters, sort, dataTypes);
+      setRowsPage({ rows: rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE), total: rows.length });
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    getDatasetRows(
+      file.file_id,
+      { offset: page * PAGE_SIZE, limit: PAGE_SIZE, sort, filters },
+      { signal: controller.signal }
+    )
+      .then((response) => {
+        setRowsPage({ rows: response.rows, total: response.total });
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        // Without a rows endpoint, only the preview can be shown
+        if (err instanceof ApiError && err.unsupported) {
+          setSource('preview');
+          return;
+        }
+        console.error('Error loading rows:', err);
+        setError(describeApiError(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [open, source, file, dataTypes, page, sort, filters, reloadKey]);
+
+  // Track the viewport so only the rows in view are rendered
+  React.useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    setViewportHeight(element.clientHeight);
+    return () => observer.disconnect();
+  }, [open]);
+
+  // Function to resize a column by dragging the edge of its header
+  const startResize = (event: React.PointerEvent<HTMLDivElement>, column: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const startX = event.clientX;
+    const startWidth = columnWidths[column] ?? DEFAULT_COLUMN_WIDTH;
+    const handle = event.currentTarget;
+    const onMove = (moveEvent: PointerEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX);
+      setColumnWidths((prev) => ({ ...prev, [column]: width }));
+    };
+    const onUp = () => {
+      handle.removeEventListener('pointermove', onMove);
+      handle.removeEventListener('pointerup', onUp);
+      handle.removeEventListener('pointercancel', onUp);
+    };
+    handle.addEventListener('pointermove', onMove);
+    handle.addEventListener('pointerup', onUp);
+    handle.addEventListener('pointercancel', onUp);
+  };
+
+  const toggleColumn = (column: string) => {
+    setHiddenColumns((prev) => {
+      const next = new Set(prev);
+      if (next.has(column)) {
+        next.delete(column);
+      } else {
+        next.add(column);
+      }
+      return next;
+    });
+  };
+
+  const gridTemplateColumns = [
+    `${ROW_NUMBER_WIDTH}px`,
+    ...visibleColumns.map((column) => `${columnWidths[column] ?? DEFAULT_COLUMN_WIDTH}px`),
+  ].join(' ');
+
+  const firstVisibleRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastVisibleRow = Math.min(
+    rowsPage.rows.length,
+    Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+  const firstRowNumber = page * PAGE_SIZE;
+  const activeFilterCount = filters.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[95vh] w-[98vw] max-w-none flex-col gap-3 p-4 sm:max-w-none">
+        <DialogHeader>
+          <DialogTitle>{file.filename}</DialogTitle>
+          <DialogDescription>
+            {file.summary.rows.toLocaleString()} rows · {columns.length} columns. Click a header to sort; filter
+            with text, or a comparison such as &gt;10, &lt;=5 or !=0.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <div className="relative">
+            <Button variant="outline" size="sm" onClick={() => setIsColumnMenuOpen(!isColumnMenuOpen)}>
+              Columns ({visibleColumns.length}/{columns.length})
+            </Button>
+            {isColumnMenuOpen && (
+              <div className="absolute left-0 top-full z-20 mt-1 max-h-80 w-64 overflow-y-auto rounded-md border bg-popover p-2 shadow-md">
+                <div className="mb-1 flex justify-end gap-1">
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setHiddenColumns(new Set())}>
+                    Show all
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setIsColumnMenuOpen(false)}>
+                    Done
+                  </Button>
+                </div>
+                {columns.map((column) => (
+                  <label key={column} className="flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 hover:bg-accent">
+                    <input type="checkbox" checked={!hiddenColumns.has(column)} onChange={() => toggleColumn(column)} />
+                    <span className="flex-1 truncate">{column}</span>
+                    <span className="text-xs text-gray-400">{dataTypes[column]}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          {(activeFilterCount > 0 || sort) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFilterInputs({});
+                changeSort(null);
+              }}
+            >
+              Clear sort and filters
+            </Button>
+          )}
+          {source === 'preview' && (
+            <span className="text-xs text-amber-700 dark:text-amber-400">
+              This backend can&apos;t page through rows, so only the {file.data_preview.length} preview rows are shown.
+            </span>
+          )}
+          {error && (
+            <span className="flex items-center gap-2 text-xs text-red-600">
+              {error}
+              <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => setReloadKey((key) => key + 1)}>
+                Retry
+              </Button>
+            </span>
+          )}
+        </div>
+
+        <div
+          ref={scrollRef}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          className="relative min-h-0 flex-1 overflow-auto rounded-md border text-sm"
+        >
+          <div className="sticky top-0 z-10 grid w-max border-b bg-muted" style={{ gridTemplateColumns }}>
+            <div className="px-2 py-1.5 text-xs text-gray-500">#</div>
+            {visibleColumns.map((column) => {
+              const direction = sort?.column === column ? sort.direction : null;
+              return (
+                <div
+                  key={column}
+                  role="columnheader"
+                  aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+                  className="relative min-w-0 border-l px-2 py-1.5"
+                >
+                  <button
+                    type="button"
+                    onClick={() => changeSort(nextSort(sort, column))}
+                    className="flex w-full items-center gap-1 text-left font-medium"
+                    title={`${column} (${dataTypes[column] ?? 'unknown'})`}
+                  >
+                    <span className="truncate">{column}</span>
+                    <span className="text-xs text-gray-500" aria-hidden>
+                      {direction === 'asc' ? '▲' : direction === 'desc' ? '▼' : ''}
+                    </span>
+                  </button>
+                  <Input
+                    value={filterInputs[column] ?? ''}
+                    onChange={(e) => setFilterInputs((prev) => ({ ...prev, [column]: e.target.value }))}
+                    placeholder="Filter"
+                    className="mt-1 h-7 bg-background px-2 text-xs"
+                    aria-label={`Filter ${column}`}
+                  />
+                  <div
+                    onPointerDown={(e) => startResize(e, column)}
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize touch-none hover:bg-blue-400"
+                    title="Drag to resize"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          {rowsPage.rows.length === 0 ? (
+            <p className="p-6 text-center text-gray-500">
+              {isLoading ? 'Loading rows...' : activeFilterCount > 0 ? 'No rows match the filters' : 'No rows'}
+            </p>
+          ) : (
+            <div className="relative w-max" style={{ height: rowsPage.rows.length * ROW_HEIGHT }}>
+              {rowsPage.rows.slice(firstVisibleRow, lastVisibleRow).map((row, index) => {
+                const rowIndex = firstVisibleRow + index;
+                return (
+                  <div
+                    key={rowIndex}
+                    className="absolute left-0 grid border-b hover:bg-gray-50 dark:hover:bg-gray-900"
+                    style={{ top: rowIndex * ROW_HEIGHT, height: ROW_HEIGHT, gridTemplateColumns }}
+                  >
+                    <div className="flex items-center px-2 text-xs text-gray-400 tabular-nums">
+                      {(firstRowNumber + rowIndex + 1).toLocaleString()}
+                    </div>
+                    {visibleColumns.map((column) => {
+                      const kind = columnKind(dataTypes[column]);
+                      const text = formatCellValue(row[column], kind);
+                      return (
+                        <div
+                          key={column}
+                          className={`flex min-w-0 items-center border-l px-2 ${CELL_ALIGNMENT[kind]}`}
+                          title={text ?? undefined}
+                        >
+                          {text === null ? (
+                            <span className="text-xs italic text-gray-400">null</span>
+                          ) : (
+                            <span className="truncate">{text}</span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <span>
+            {rowsPage.total === 0
+              ? '0 rows'
+              : `Rows ${(firstRowNumber + 1).toLocaleString()}–${(firstRowNumber + rowsPage.rows.length).toLocaleString()} of ${rowsPage.total.toLocaleString()}`}
+            {/* In preview mode only the preview rows are filtered, not the whole dataset */}
+            {source === 'preview'
+              ? activeFilterCount > 0
+                ? ` (filtered from the ${file.data_preview.length.toLocaleString()} preview rows)`
+                : ' preview rows'
+              : activeFilterCount > 0 && ` (filtered from ${file.summary.rows.toLocaleString()})`}
+            {isLoading && rowsPage.rows.length > 0 && ' · Loading...'}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" disabled={page === 0 || isLoading} onClick={() => setPage(0)}>
+              First
+            </Button>
+            <Button variant="outline" size="sm" disabled={page === 0 || isLoading} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= pageCount - 1 || isLoading}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= pageCount - 1 || isLoading}
+              onClick={() => setPage(pageCount - 1)}
+            >
+              Last
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
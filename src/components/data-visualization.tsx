@@ -14,11 +14,34 @@ import {
   Legend,
   RadialLinearScale,
   ScatterController,
-  TooltipItem
+  BarController,
+  LineController,
+  LogarithmicScale
 } from 'chart.js';
 import { Bar, Pie, Line, Doughnut, PolarArea, Scatter } from 'react-chartjs-2';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { toast } from 'sonner';
+import type { ChartData, ChartParseError, ChartRepair } from '@/lib/chart-data';
+import { downloadBlob, downloadText } from '@/lib/download';
+import {
+  chartFilename,
+  chartToCsv,
+  chartToJson,
+  chartZipEntries,
+  ChartFileFormat,
+  exportChartPng,
+  exportChartSvg,
+  PNG_SCALES,
+  PngScale
+} from '@/lib/chart-export';
+import { createZip, ZipEntry } from '@/lib/zip';
+import { applyChartEdits, updateChartEdits } from '@/lib/chart-edit';
+import { BoxPlotChart } from './boxplot-chart';
+import { ChartEditor } from './chart-editor';
+import { HeatmapChart } from './heatmap-chart';
+import { HistogramChart } from './histogram-chart';
 
 // Register ChartJS components
 ChartJS.register(
@@ -32,56 +55,88 @@ ChartJS.register(
   Tooltip,
   Legend,
   RadialLinearScale,
-  ScatterController
+  ScatterController,
+  // Used by mixed bar/line charts such as histograms with a density curve
+  BarController,
+  LineController,
+  LogarithmicScale
 );
 
-export interface DataPoint {
-  label: string;
-  value: number;
-}
-
-export interface ChartData {
-  title: string;
-  description: string;
-  type: 'bar' | 'line' | 'pie' | 'doughnut' | 'polarArea' | 'scatter' | 'heatmap' | 'histogram' | 'boxplot';
-  labels: string[];
-  datasets: Array<{
-    label: string;
-    data: number[] | Array<{x: number, y: number}>;
-    backgroundColor?: string | string[];
-    borderColor?: string | string[];
-    borderWidth?: number;
-  }>;
-}
+export type { ChartData, ChartParseError, ChartRepair, DataPoint } from '@/lib/chart-data';
+export { parseChartDataFromResponse } from '@/lib/chart-data';
 
 interface DataVisualizationProps {
   charts: ChartData[];
+  onChartChange?: (index: number, chart: ChartData) => void; // Enables the chart editor
+  onPinChart?: (chart: ChartData) => void; // Enables pinning to the dashboard
+  isChartPinned?: (chart: ChartData) => boolean;
 }
 
-export function DataVisualization({ charts }: DataVisualizationProps) {
+export function DataVisualization({ charts, onChartChange, onPinChart, isChartPinned }: DataVisualizationProps) {
+  const chartsRef = React.useRef<HTMLDivElement>(null);
+  const [isZipping, setIsZipping] = React.useState(false);
+
   if (!charts || charts.length === 0) {
     return null;
   }
 
+  // Function to download every chart's PNG, SVG, CSV and JSON as one zip
+  const downloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const entries: ZipEntry[] = [];
+      for (const [index, chart] of charts.entries()) {
+        const container = chartsRef.current?.querySelector<HTMLElement>(`[data-chart-index="${index}"]`);
+        if (container) {
+          entries.push(...(await chartZipEntries(applyChartEdits(chart), container, 2)));
+        }
+      }
+      downloadBlob(createZip(entries), 'charts.zip');
+    } catch (error) {
+      console.error('Error exporting charts:', error);
+      toast.error("Couldn't export the charts.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
   return (
-    <div className="space-y-6 mt-6 mb-6">
-      <h3 className="text-lg font-medium">Data Visualization</h3>
+    <div ref={chartsRef} className="space-y-6 mt-6 mb-6">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-medium">Data Visualization</h3>
+        <Button variant="outline" size="sm" onClick={downloadAll} disabled={isZipping}>
+          {isZipping ? 'Preparing...' : 'Download all (.zip)'}
+        </Button>
+      </div>
       
       {charts.length === 1 ? (
-        <SingleChart chart={charts[0]} />
+        <SingleChart
+          chart={charts[0]}
+          index={0}
+          onChange={onChartChange}
+          onPin={onPinChart}
+          isPinned={isChartPinned?.(charts[0])}
+        />
       ) : (
         <Tabs defaultValue={`chart-0`} className="w-full">
           <TabsList className="w-full grid" style={{ gridTemplateColumns: `repeat(${Math.min(charts.length, 4)}, 1fr)` }}>
             {charts.map((chart, index) => (
               <TabsTrigger key={index} value={`chart-${index}`}>
-                {chart.title}
+                {applyChartEdits(chart).title}
               </TabsTrigger>
             ))}
           </TabsList>
           
+          {/* Keep every tab mounted so "Download all" can reach each chart */}
           {charts.map((chart, index) => (
-            <TabsContent key={index} value={`chart-${index}`}>
-              <SingleChart chart={chart} />
+            <TabsContent key={index} value={`chart-${index}`} forceMount className="data-[state=inactive]:hidden">
+              <SingleChart
+                chart={chart}
+                index={index}
+                onChange={onChartChange}
+                onPin={onPinChart}
+                isPinned={isChartPinned?.(chart)}
+              />
             </TabsContent>
           ))}
         </Tabs>
@@ -90,109 +145,222 @@ export function DataVisualization({ charts }: DataVisualizationProps) {
   );
 }
 
-function SingleChart({ chart }: { chart: ChartData }) {
+// Value and category axes for the chart types that have them
+function axisScales(chart: ChartData) {
+  return {
+    x: {
+      stacked: chart.stacked,
+      title: { display: Boolean(chart.xAxisTitle), text: chart.xAxisTitle },
+    },
+    y: {
+      type: chart.yScale === 'logarithmic' ? 'logarithmic' as const : 'linear' as const,
+      stacked: chart.stacked,
+      title: { display: Boolean(chart.yAxisTitle), text: chart.yAxisTitle },
+    },
+  };
+}
+
+interface ChartViewProps {
+  chart: ChartData;
+  thumbnail?: boolean; // Small preview without title, legend or controls
+  onBinCountChange?: (binCount: number) => void; // Histograms of raw values
+}
+
+// Draws a chart (with its edits already applied) to fill its container
+export function ChartView({ chart, thumbnail = false, onBinCountChange }: ChartViewProps) {
   const options = {
     responsive: true,
     plugins: {
       legend: {
+        display: !thumbnail,
         position: 'bottom' as const,
       },
       title: {
-        display: true,
+        display: !thumbnail,
         text: chart.title,
       },
     },
     maintainAspectRatio: false,
   };
+  const axisOptions = { ...options, scales: axisScales(chart) };
 
   const chartData = {
     labels: chart.labels,
     datasets: chart.datasets,
   };
 
-  const renderChart = () => {
-    switch (chart.type) {
-      case 'bar':
-        return <Bar options={options} data={chartData} height={300} />;
-      case 'line':
-        return <Line options={options} data={chartData} height={300} />;
-      case 'pie':
-        return <Pie options={options} data={chartData} height={300} />;
-      case 'doughnut':
-        return <Doughnut options={options} data={chartData} height={300} />;
-      case 'polarArea':
-        return <PolarArea options={options} data={chartData} height={300} />;
-      case 'scatter':
-        return <Scatter options={options} data={chartData} height={300} />;
-      case 'histogram':
-        // For histogram, we'll use a bar chart with special configurations
-        const histogramOptions = {
-          ...options,
-          scales: {
-            y: {
-              beginAtZero: true,
-              title: { display: true, text: 'Frequency' }
-            },
-            x: {
-              title: { display: true, text: 'Value' }
-            }
-          }
-        };
-        return <Bar options={histogramOptions} data={chartData} height={300} />;
-      case 'heatmap':
-        // For heatmap, we'll use a specialized configuration of a bar chart
-        const heatmapOptions = {
-          ...options,
-          plugins: {
-            ...options.plugins,
-            tooltip: {
-              callbacks: {
-                label: function(tooltipItem: TooltipItem<'bar'>) {
-                  return `Value: ${tooltipItem.raw}`;
-                }
-              }
-            }
-          }
-        };
-        return <Bar options={heatmapOptions} data={chartData} height={300} />;
-      case 'boxplot':
-        // For boxplot, use a bar chart with specialized styling
-        return <Bar options={options} data={chartData} height={300} />;
-      //   return <BoxPlot options={options} data={chartData} height={300} />;
-      default:
-        return <Bar options={options} data={chartData} height={300} />;
-    }
-  };
+  switch (chart.type) {
+    case 'bar':
+      return <Bar options={axisOptions} data={chartData} height={300} />;
+    case 'line':
+      return <Line options={axisOptions} data={chartData} height={300} />;
+    case 'pie':
+      return <Pie options={options} data={chartData} height={300} />;
+    case 'doughnut':
+      return <Doughnut options={options} data={chartData} height={300} />;
+    case 'polarArea':
+      return <PolarArea options={options} data={chartData} height={300} />;
+    case 'scatter':
+      return <Scatter options={axisOptions} data={chartData} height={300} />;
+    case 'histogram':
+      return <HistogramChart chart={chart} showControls={!thumbnail} onBinCountChange={onBinCountChange} />;
+    case 'heatmap':
+      return <HeatmapChart chart={chart} />;
+    case 'boxplot':
+      return <BoxPlotChart chart={chart} />;
+    default:
+      return <Bar options={options} data={chartData} height={300} />;
+  }
+}
+
+interface SingleChartProps {
+  chart: ChartData;
+  index: number;
+  onChange?: (index: number, chart: ChartData) => void;
+  onPin?: (chart: ChartData) => void;
+  isPinned?: boolean;
+}
+
+function SingleChart({ chart: sourceChart, index, onChange, onPin, isPinned }: SingleChartProps) {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const chart = applyChartEdits(sourceChart);
 
   return (
     <Card>
       <CardHeader>
         <CardTitle>{chart.title}</CardTitle>
         <CardDescription>{chart.description}</CardDescription>
+        <CardAction className="flex items-center gap-1">
+          {onPin && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2 text-xs"
+              disabled={isPinned}
+              onClick={() => onPin(sourceChart)}
+            >
+              {isPinned ? 'Pinned' : 'Pin'}
+            </Button>
+          )}
+          {onChange && (
+            <Button
+              variant={isEditing ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 px-2 text-xs"
+              onClick={() => setIsEditing(!isEditing)}
+            >
+              {isEditing ? 'Done' : 'Edit'}
+            </Button>
+          )}
+          <ChartDownloads chart={chart} containerRef={containerRef} />
+        </CardAction>
       </CardHeader>
-      <CardContent className="h-[350px]">
-        {renderChart()}
+      {onChange && isEditing && (
+        <div className="px-6">
+          <ChartEditor chart={sourceChart} onChange={(edited) => onChange(index, edited)} />
+        </div>
+      )}
+      <CardContent ref={containerRef} data-chart-index={index} className="h-[350px]">
+        <ChartView
+          chart={chart}
+          onBinCountChange={onChange && ((binCount) => onChange(index, updateChartEdits(sourceChart, { binCount })))}
+        />
       </CardContent>
     </Card>
   );
 }
 
-// Helper function to convert AI response with chart data into visualization-ready format
-export function parseChartDataFromResponse(analysisText: string): ChartData[] {
-  // Look for JSON chart data in the response
-  const chartDataRegex = /```chart-data\n([\s\S]*?)\n```/g;
-  const matches = [...analysisText.matchAll(chartDataRegex)];
-  
-  if (matches.length === 0) {
-    return [];
-  }
+interface ChartDownloadsProps {
+  chart: ChartData;
+  containerRef: React.RefObject<HTMLDivElement | null>;
+}
 
-  return matches.map(match => {
+// Download buttons for one chart: image formats and the underlying data
+function ChartDownloads({ chart, containerRef }: ChartDownloadsProps) {
+  const [scale, setScale] = React.useState<PngScale>(2);
+
+  const download = async (format: ChartFileFormat) => {
+    const filename = chartFilename(chart, format);
     try {
-      return JSON.parse(match[1]) as ChartData;
-    } catch (err) {
-      console.error('Failed to parse chart data:', err);
-      return null;
+      switch (format) {
+        case 'png':
+          if (!containerRef.current) return;
+          downloadBlob(await exportChartPng(containerRef.current, scale), filename);
+          break;
+        case 'svg':
+          if (!containerRef.current) return;
+          downloadText(await exportChartSvg(containerRef.current), filename, 'image/svg+xml');
+          break;
+        case 'csv':
+          downloadText(chartToCsv(chart), filename, 'text/csv');
+          break;
+        case 'json':
+          downloadText(chartToJson(chart), filename, 'application/json');
+          break;
+      }
+    } catch (error) {
+      console.error('Error exporting chart:', error);
+      toast.error("Couldn't export the chart.");
     }
-  }).filter((chart): chart is ChartData => chart !== null);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={scale}
+        onChange={(e) => setScale(Number(e.target.value) as PngScale)}
+        className="h-8 rounded-md border bg-transparent px-1 text-xs"
+        aria-label="PNG resolution"
+      >
+        {PNG_SCALES.map((option) => (
+          <option key={option} value={option}>{option}x</option>
+        ))}
+      </select>
+      {(['png', 'svg', 'csv', 'json'] as const).map((format) => (
+        <Button key={format} variant="ghost" size="sm" className="h-8 px-2 text-xs uppercase" onClick={() => download(format)}>
+          {format}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+// Muted note listing what was fixed in the chart data so the charts could be drawn
+export function ChartRepairNote({ repairs }: { repairs: ChartRepair[] }) {
+  const count = repairs.reduce((sum, chart) => sum + chart.repairs.length, 0);
+  return (
+    <details className="not-prose my-2 text-xs text-gray-500 dark:text-gray-400 whitespace-normal">
+      <summary className="cursor-pointer">
+        Fixed {count} {count === 1 ? 'problem' : 'problems'} in the chart data
+      </summary>
+      <ul className="list-disc pl-5 mt-1">
+        {repairs.flatMap((chart, chartIndex) =>
+          chart.repairs.map((repair, index) => (
+            <li key={`${chartIndex}-${index}`}>{chart.title}: {repair}</li>
+          ))
+        )}
+      </ul>
+    </details>
+  );
+}
+
+// Inline card shown in place of a chart-data block that couldn't be rendered
+export function ChartErrorCard({ error }: { error: ChartParseError }) {
+  return (
+    <div className="not-prose my-3 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-700 dark:bg-amber-900/20 dark:text-amber-200 whitespace-normal">
+      <p className="font-medium">Couldn&apos;t render this chart</p>
+      <ul className="list-disc pl-5 mt-1 text-xs">
+        {error.errors.map((reason, index) => (
+          <li key={index}>{reason}</li>
+        ))}
+      </ul>
+      <details className="mt-2">
+        <summary className="cursor-pointer text-xs">Show raw chart data</summary>
+        <pre className="mt-2 max-h-48 overflow-auto rounded bg-white/70 dark:bg-black/30 p-2 text-xs whitespace-pre">
+          {error.raw}
+        </pre>
+      </details>
+    </div>
+  );
 }
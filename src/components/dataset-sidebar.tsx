@@ -0,0 +1,89 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+export interface DatasetSidebarItem {
+  fileId: string;
+  filename: string;
+  rows: number;
+  columns: number;
+  messageCount: number;
+  isBusy?: boolean; // A response is being generated for this dataset
+}
+
+interface DatasetSidebarProps {
+  items: DatasetSidebarItem[];
+  activeFileId: string | null;
+  onSelect: (fileId: string) => void;
+  onClose: (fileId: string) => void;
+  onAdd: () => void;
+}
+
+export function DatasetSidebar({ items, activeFileId, onSelect, onClose, onAdd }: DatasetSidebarProps) {
+  return (
+    <Card className="gap-4 py-4">
+      <CardHeader className="px-4">
+        <CardTitle className="text-lg">Datasets</CardTitle>
+      </CardHeader>
+      <CardContent className="px-2 space-y-1">
+        {items.map((item) => (
+          <div
+            key={item.fileId}
+            className={cn(
+              "group flex items-start gap-2 rounded-md p-2 cursor-pointer hover:bg-accent transition-colors",
+              item.fileId === activeFileId && "bg-accent"
+            )}
+            onClick={() => onSelect(item.fileId)}
+          >
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-medium truncate" title={item.filename}>
+                {item.filename}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {item.rows} rows · {item.columns} cols · {item.messageCount} msgs
+              </p>
+              {item.isBusy && (
+                <p className="text-xs text-primary">Generating response...</p>
+              )}
+            </div>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              title="Close dataset"
+              aria-label={`Close ${item.filename}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                onClose(item.fileId);
+              }}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="14"
+                height="14"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M18 6 6 18" />
+                <path d="m6 6 12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+        <Button
+          variant={activeFileId === null ? "secondary" : "ghost"}
+          size="sm"
+          className="w-full justify-start mt-2"
+          onClick={onAdd}
+        >
+          + Add dataset
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import React from 'react';
+import { ChartData, getHeatmapMatrix } from '@/lib/chart-data';
+import { contrastTextColor, divergingScale, sequentialScale } from '@/lib/color-scale';
+
+// Layout of the SVG in viewBox units - the SVG scales to fit its container
+const CELL_WIDTH = 64;
+const CELL_HEIGHT = 32;
+const LABEL_CHAR_WIDTH = 6.5;
+const LEGEND_WIDTH = 70;
+const TITLE_HEIGHT = 28;
+const MAX_LABEL_CHARS = 24;
+const MAX_CELLS_WITH_VALUES = 400;
+
+function truncate(label: string) {
+  return label.length > MAX_LABEL_CHARS ? `${label.slice(0, MAX_LABEL_CHARS - 1)}…` : label;
+}
+
+function formatValue(value: number) {
+  if (Number.isInteger(value)) return String(value);
+  return Math.abs(value) < 10 ? value.toFixed(2) : value.toFixed(1);
+}
+
+interface HeatmapChartProps {
+  chart: ChartData;
+}
+
+export function HeatmapChart({ chart }: HeatmapChartProps) {
+  const gradientId = `heatmap-gradient-${React.useId().replace(/:/g, '')}`;
+  const { xLabels, yLabels, values } = getHeatmapMatrix(chart);
+  const finiteValues = values.flat().filter((value) => Number.isFinite(value));
+
+  if (finiteValues.length === 0) {
+    return <p className="text-sm text-gray-500">No values to display</p>;
+  }
+
+  const min = Math.min(...finiteValues);
+  const max = Math.max(...finiteValues);
+  // Default to diverging when the data crosses zero, as correlation matrices do
+  const scaleType = chart.colorScale ?? (min < 0 && max > 0 ? 'diverging' : 'sequential');
+  const scale = scaleType === 'diverging' ? divergingScale(min, max) : sequentialScale(min, max);
+  const showValues = chart.showValues ?? xLabels.length * yLabels.length <= MAX_CELLS_WITH_VALUES;
+
+  const rotateXLabels = xLabels.some((label) => label.length * LABEL_CHAR_WIDTH > CELL_WIDTH - 4);
+  const longestY = Math.max(...yLabels.map((label) => truncate(label).length), 1);
+  const longestX = Math.max(...xLabels.map((label) => truncate(label).length), 1);
+
+  const left = Math.min(longestY * LABEL_CHAR_WIDTH + 12, MAX_LABEL_CHARS * LABEL_CHAR_WIDTH + 12);
+  const top = TITLE_HEIGHT;
+  const gridWidth = xLabels.length * CELL_WIDTH;
+  const gridHeight = yLabels.length * CELL_HEIGHT;
+  const bottom = rotateXLabels ? longestX * LABEL_CHAR_WIDTH * 0.75 + 16 : 24;
+  const width = left + gridWidth + LEGEND_WIDTH;
+  const height = top + gridHeight + bottom;
+
+  const legendHeight = Math.max(gridHeight, 80);
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${width} ${Math.max(height, top + legendHeight + 16)}`}
+      width="100%"
+      height="100%"
+      preserveAspectRatio="xMidYMid meet"
+      fontFamily="ui-sans-serif, system-ui, sans-serif"
+      role="img"
+      aria-label={chart.title}
+    >
+      <text x={width / 2} y={18} textAnchor="middle" fontSize={13} fontWeight={600} fill="#374151">
+        {chart.title}
+      </text>
+
+      {values.map((row, rowIndex) =>
+        xLabels.map((xLabel, columnIndex) => {
+          const value = row[columnIndex];
+          const hasValue = Number.isFinite(value);
+          const fill = hasValue ? scale.color(value) : '#f3f4f6';
+          const x = left + columnIndex * CELL_WIDTH;
+          const y = top + rowIndex * CELL_HEIGHT;
+          return (
+            <g key={`${rowIndex}-${columnIndex}`}>
+              <rect x={x} y={y} width={CELL_WIDTH} height={CELL_HEIGHT} fill={fill} stroke="#ffffff" strokeWidth={1}>
+                <title>{`${yLabels[rowIndex]} × ${xLabel}: ${hasValue ? formatValue(value) : 'no value'}`}</title>
+              </rect>
+              {showValues && hasValue && (
+                <text
+                  x={x + CELL_WIDTH / 2}
+                  y={y + CELL_HEIGHT / 2}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={11}
+                  fill={contrastTextColor(fill)}
+                  pointerEvents="none"
+                >
+                  {formatValue(value)}
+                </text>
+              )}
+            </g>
+          );
+        })
+      )}
+
+      {yLabels.map((label, index) => (
+        <text
+          key={`y-${index}`}
+          x={left - 6}
+          y={top + index * CELL_HEIGHT + CELL_HEIGHT / 2}
+          textAnchor="end"
+          dominantBaseline="central"
+          fontSize={11}
+          fill="#4b5563"
+        >
+          {truncate(label)}
+        </text>
+      ))}
+
+      {xLabels.map((label, index) => {
+        const x = left + index * CELL_WIDTH + CELL_WIDTH / 2;
+        const y = top + gridHeight + 12;
+        return (
+          <text
+            key={`x-${index}`}
+            x={x}
+            y={y}
+            textAnchor={rotateXLabels ? 'end' : 'middle'}
+            dominantBaseline="central"
+            fontSize={11}
+            fill="#4b5563"
+            transform={rotateXLabels ? `rotate(-45 ${x} ${y})` : undefined}
+          >
+            {truncate(label)}
+          </text>
+        );
+      })}
+
+      {/* Legend: vertical gradient from max (top) to min (bottom) */}
+      <defs>
+        <linearGradient id={gradientId} x1="0" y1="1" x2="0" y2="0">
+          {scale.stops.map((color, index) => (
+            <stop key={index} offset={`${(index / (scale.stops.length - 1)) * 100}%`} stopColor={color} />
+          ))}
+        </linearGradient>
+      </defs>
+      <rect
+        x={left + gridWidth + 16}
+        y={top}
+        width={14}
+        height={legendHeight}
+        fill={`url(#${gradientId})`}
+        stroke="#d1d5db"
+      />
+      {[scale.max, (scale.max + scale.min) / 2, scale.min].map((value, index) => (
+        <text
+          key={`legend-${index}`}
+          x={left + gridWidth + 34}
+          y={top + (index / 2) * legendHeight}
+          dominantBaseline="central"
+          fontSize={10}
+          fill="#4b5563"
+        >
+          {formatValue(value)}
+        </text>
+      ))}
+    </svg>
+  );
+}
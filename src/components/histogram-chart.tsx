@@ -0,0 +1,140 @@
+"use client";
+
+import React from 'react';
+import { Chart } from 'react-chartjs-2';
+import type { ChartData as ChartJsData, ChartOptions } from 'chart.js';
+import { Button } from "@/components/ui/button";
+import { binHistogram, ChartData, getHistogramBinCount, withAlpha } from '@/lib/chart-data';
+import { BinningMethod, histogramBins, kernelDensity, MAX_BIN_COUNT } from '@/lib/statistics';
+
+const BINNING_METHODS: Array<{ method: BinningMethod; label: string }> = [
+  { method: 'sturges', label: 'Sturges' },
+  { method: 'freedman-diaconis', label: 'Freedman–Diaconis' },
+];
+
+interface HistogramChartProps {
+  chart: ChartData;
+  showControls?: boolean;
+  // Saves the bin count in the chart's edits, so exports and pins use it too.
+  // Without it the bin count only changes in this view.
+  onBinCountChange?: (binCount: number) => void;
+}
+
+export function HistogramChart({ chart, showControls = true, onBinCountChange }: HistogramChartProps) {
+  const values = chart.values;
+  const chartBinCount = values ? getHistogramBinCount(values, chart.binning) : 0;
+  const [localBinCount, setLocalBinCount] = React.useState(chartBinCount);
+  const binCount = onBinCountChange ? chartBinCount : localBinCount;
+  const setBinCount = onBinCountChange ?? setLocalBinCount;
+  const [showDensity, setShowDensity] = React.useState(chart.showDensity ?? false);
+
+  const options: ChartOptions<'bar' | 'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: showControls, position: 'bottom' },
+      title: { display: showControls, text: chart.title },
+    },
+    scales: {
+      y: {
+        type: chart.yScale === 'logarithmic' ? 'logarithmic' : 'linear',
+        beginAtZero: true,
+        title: { display: true, text: chart.yAxisTitle || 'Frequency' },
+      },
+      x: { title: { display: true, text: chart.xAxisTitle || 'Value' } },
+    },
+  };
+
+  // The AI sent pre-binned counts - nothing to re-bin on the client
+  if (!values) {
+    return <Chart type="bar" options={options} data={{ labels: chart.labels, datasets: chart.datasets }} />;
+  }
+
+  const { labels, datasets } = binHistogram(values, binCount);
+  const color = (Array.isArray(chart.datasets[0]?.borderColor)
+    ? chart.datasets[0].borderColor[0]
+    : chart.datasets[0]?.borderColor) ?? '#3b82f6';
+
+  const data: ChartJsData<'bar' | 'line'> = {
+    labels,
+    datasets: [
+      {
+        type: 'bar',
+        label: datasets[0].label,
+        data: datasets[0].data as number[],
+        backgroundColor: withAlpha(color, 0.6),
+        borderColor: color,
+        borderWidth: 1,
+        barPercentage: 1,
+        categoryPercentage: 1,
+      },
+    ],
+  };
+
+  if (showDensity) {
+    // Scale the density to counts so it shares the frequency axis
+    const bins = histogramBins(values, binCount);
+    const binWidth = bins[0].end - bins[0].start;
+    const centers = bins.map((bin) => (bin.start + bin.end) / 2);
+    data.datasets.push({
+      type: 'line',
+      label: 'Density',
+      data: kernelDensity(values, centers).map((density) => density * values.length * binWidth),
+      borderColor: '#f97316',
+      backgroundColor: 'transparent',
+      borderWidth: 2,
+      pointRadius: 0,
+      tension: 0.4,
+    });
+  }
+
+  const suggestedCounts = BINNING_METHODS.map(({ method, label }) => ({
+    label,
+    count: getHistogramBinCount(values, method),
+  }));
+
+  return (
+    <div className="flex h-full flex-col gap-2">
+      {showControls && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-600 dark:text-gray-300">
+          <label className="flex items-center gap-2">
+            Bins
+            <input
+              type="range"
+              min={1}
+              max={Math.min(MAX_BIN_COUNT, Math.max(values.length, 2))}
+              value={binCount}
+              onChange={(e) => setBinCount(Number(e.target.value))}
+              className="w-32"
+            />
+            <span className="w-6 tabular-nums">{binCount}</span>
+          </label>
+          <div className="flex items-center gap-1">
+            {suggestedCounts.map(({ label, count }) => (
+              <Button
+                key={label}
+                variant={binCount === count ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setBinCount(count)}
+              >
+                {label} ({count})
+              </Button>
+            ))}
+          </div>
+          <label className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={showDensity}
+              onChange={(e) => setShowDensity(e.target.checked)}
+            />
+            Density curve
+          </label>
+        </div>
+      )}
+      <div className="min-h-0 flex-1">
+        <Chart type="bar" options={options} data={data} />
+      </div>
+    </div>
+  );
+}
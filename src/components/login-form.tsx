@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { describeApiError } from '@/services/api-error';
+import type { AuthProvider, AuthSession } from '@/services/auth';
+
+interface LoginFormProps {
+  provider: AuthProvider;
+  onSignedIn: (session: AuthSession) => void;
+}
+
+// Sign-in form for the configured auth provider
+export function LoginForm({ provider, onSignedIn }: LoginFormProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      onSignedIn(await provider.signIn({ email, password }));
+    } catch (err) {
+      setError(describeApiError(err));
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-sm mx-auto mt-6">
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>Sign in to upload data and chat about it ({provider.name}).</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 mt-4">
+          <div className="space-y-1">
+            <label htmlFor="login-email" className="text-sm font-medium">Email</label>
+            <Input
+              id="login-email"
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              autoFocus
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="login-password" className="text-sm font-medium">Password</label>
+            <Input
+              id="login-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+          {provider.hint && <p className="text-xs text-muted-foreground">{provider.hint}</p>}
+        </CardContent>
+        <CardFooter className="mt-4">
+          <Button type="submit" className="w-full" disabled={isSigningIn}>
+            {isSigningIn ? 'Signing in...' : 'Sign in'}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
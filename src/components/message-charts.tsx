@@ -0,0 +1,124 @@
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { ChartData } from '@/lib/chart-data';
+import { applyChartEdits } from '@/lib/chart-edit';
+import { ChartView } from './data-visualization';
+
+type ChartsView = 'thumbnails' | 'full';
+
+interface MessageChartsProps {
+  charts: ChartData[];
+  onPin?: (chart: ChartData) => void;
+  isPinned?: (chart: ChartData) => boolean;
+}
+
+// The charts an assistant message produced, shown inside its bubble
+export function MessageCharts({ charts, onPin, isPinned }: MessageChartsProps) {
+  const [isExpanded, setIsExpanded] = React.useState(true);
+  const [view, setView] = React.useState<ChartsView>('thumbnails');
+  const idPrefix = React.useId().replace(/:/g, '');
+  const chartElementId = (index: number) => `${idPrefix}-chart-${index}`;
+
+  // Function to open one thumbnail at full size
+  const showChart = (index: number) => {
+    setView('full');
+    // Wait for the full-size layout before scrolling to the chart
+    requestAnimationFrame(() => {
+      document.getElementById(chartElementId(index))?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    });
+  };
+
+  return (
+    <div className="not-prose mt-3 whitespace-normal rounded-md border bg-background/60 text-foreground">
+      <div className="flex items-center gap-1 px-2 py-1">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex flex-1 items-center gap-1 text-left text-xs font-medium"
+          aria-expanded={isExpanded}
+        >
+          <span className={`inline-block transition-transform ${isExpanded ? 'rotate-90' : ''}`} aria-hidden>▸</span>
+          {charts.length === 1 ? '1 chart' : `${charts.length} charts`}
+        </button>
+        {isExpanded && (
+          <>
+            <Button
+              variant={view === 'thumbnails' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setView('thumbnails')}
+            >
+              Thumbnails
+            </Button>
+            <Button
+              variant={view === 'full' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setView('full')}
+            >
+              Full size
+            </Button>
+          </>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className={view === 'thumbnails' ? 'grid grid-cols-2 gap-2 p-2 sm:grid-cols-3' : 'space-y-3 p-2'}>
+          {charts.map((sourceChart, index) => {
+            const chart = applyChartEdits(sourceChart);
+            const pinned = isPinned?.(sourceChart) ?? false;
+            return view === 'thumbnails' ? (
+              <div key={index} className="overflow-hidden rounded border bg-white p-1 dark:bg-gray-950">
+                <button
+                  type="button"
+                  onClick={() => showChart(index)}
+                  className="block h-24 w-full rounded hover:ring-2 hover:ring-blue-400"
+                  title={`Show ${chart.title}`}
+                >
+                  <div className="pointer-events-none h-full">
+                    <ChartView chart={chart} thumbnail />
+                  </div>
+                </button>
+                <div className="mt-1 flex items-center gap-1">
+                  <p className="flex-1 truncate text-xs">{chart.title}</p>
+                  {onPin && (
+                    <button
+                      type="button"
+                      className="text-xs text-gray-500 hover:text-gray-900 disabled:opacity-50"
+                      disabled={pinned}
+                      onClick={() => onPin(sourceChart)}
+                    >
+                      {pinned ? 'Pinned' : 'Pin'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div key={index} id={chartElementId(index)} className="rounded border bg-white p-2 dark:bg-gray-950">
+                <div className="mb-1 flex items-center gap-2">
+                  <p className="flex-1 truncate text-sm font-medium">{chart.title}</p>
+                  {onPin && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={pinned}
+                      onClick={() => onPin(sourceChart)}
+                    >
+                      {pinned ? 'Pinned' : 'Pin'}
+                    </Button>
+                  )}
+                </div>
+                <div className="h-[280px]">
+                  <ChartView chart={chart} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
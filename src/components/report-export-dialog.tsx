@@ -0,0 +1,262 @@
+"use client";
+
+import React from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import ReactMarkdown from 'react-markdown';
+import { toast } from 'sonner';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import type { UploadResponse } from '@/services/api';
+import type { SavedMessage } from '@/services/session-db';
+import { ChartData } from '@/lib/chart-data';
+import { applyChartEdits } from '@/lib/chart-edit';
+import { exportChartPng, isChartDrawn } from '@/lib/chart-export';
+import { downloadBlob, downloadText, toFilename } from '@/lib/download';
+import { buildHtmlReport, buildMarkdownReport, printHtml, ReportChart, ReportInput } from '@/lib/report';
+import { datasetLabel } from '@/lib/workbook';
+import { createZip } from '@/lib/zip';
+import { ChartView } from './data-visualization';
+
+type ReportFormat = 'markdown' | 'html' | 'pdf';
+
+// Size charts are drawn at for the report, before the 2x pixel ratio
+const REPORT_CHART_WIDTH = 800;
+const REPORT_CHART_HEIGHT = 400;
+const MAX_FRAMES_TO_DRAW = 30;
+
+function nextFrame() {
+  return new Promise((resolve) => requestAnimationFrame(resolve));
+}
+
+// Mount an element offscreen long enough to read what it drew
+async function withRenderedElement<T>(
+  element: React.ReactNode,
+  size: { width: number; height: number },
+  read: (container: HTMLElement) => Promise<T>
+): Promise<T> {
+  const container = document.createElement('div');
+  container.style.cssText = `position:fixed;left:-10000px;top:0;width:${size.width}px;height:${size.height}px`;
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  try {
+    flushSync(() => root.render(element));
+    return await read(container);
+  } finally {
+    root.unmount();
+    container.remove();
+  }
+}
+
+function renderMarkdown(markdown: string): string {
+  const container = document.createElement('div');
+  const root = createRoot(container);
+  // ReactMarkdown renders synchronously, so the markup is ready after flushSync
+  flushSync(() => root.render(<ReactMarkdown>{markdown}</ReactMarkdown>));
+  const html = container.innerHTML;
+  root.unmount();
+  return html;
+}
+
+async function renderReportChart(chart: ChartData): Promise<ReportChart> {
+  const displayed = applyChartEdits(chart);
+  const png = await withRenderedElement(
+    <ChartView chart={displayed} />,
+    { width: REPORT_CHART_WIDTH, height: REPORT_CHART_HEIGHT },
+    async (container) => {
+      // Chart.js charts are created in an effect, some time after their
+      // canvas is in the page
+      for (let frame = 0; frame < MAX_FRAMES_TO_DRAW; frame++) {
+        if (isChartDrawn(container)) break;
+        await nextFrame();
+      }
+      try {
+        const blob = await exportChartPng(container, 2);
+        return new Uint8Array(await blob.arrayBuffer());
+      } catch (error) {
+        console.error('Error drawing chart for the report:', error);
+        return null;
+      }
+    }
+  );
+  return { title: displayed.title, description: displayed.description, png };
+}
+
+interface ReportExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  file: UploadResponse;
+  messages: SavedMessage[];
+}
+
+export function ReportExportDialog({ open, onOpenChange, file, messages }: ReportExportDialogProps) {
+  const [title, setTitle] = React.useState(`${datasetLabel(file.filename, file.sheet_name)} analysis`);
+  const [excluded, setExcluded] = React.useState<Set<number>>(new Set());
+  const [includeCharts, setIncludeCharts] = React.useState(true);
+  const [includePreview, setIncludePreview] = React.useState(true);
+  const [exportingFormat, setExportingFormat] = React.useState<ReportFormat | null>(null);
+
+  const toggleMessage = (index: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  // Function to collect the selected messages and draw their charts
+  const buildReport = async (): Promise<ReportInput> => {
+    const entries = [];
+    for (const [index, message] of messages.entries()) {
+      if (excluded.has(index)) continue;
+      const charts = includeCharts && message.charts
+        ? await Promise.all(message.charts.map(renderReportChart))
+        : [];
+      entries.push({
+        role: message.role,
+        content: message.role === 'assistant' ? message.formattedContent ?? message.content : message.content,
+        timestamp: message.timestamp,
+        charts,
+      });
+    }
+
+    return {
+      title: title.trim() || file.filename,
+      dataset: {
+        filename: file.filename,
+        rows: file.summary.rows,
+        columns: file.summary.columns,
+        dataTypes: file.summary.data_types,
+        preview: includePreview ? file.data_preview : [],
+      },
+      entries,
+      generatedAt: new Date(),
+    };
+  };
+
+  const exportReport = async (format: ReportFormat) => {
+    setExportingFormat(format);
+    try {
+      const report = await buildReport();
+      const filename = toFilename(report.title, 'report');
+      if (format === 'markdown') {
+        downloadBlob(createZip(buildMarkdownReport(report)), `${filename}.zip`);
+      } else if (format === 'html') {
+        downloadText(buildHtmlReport(report, renderMarkdown), `${filename}.html`, 'text/html');
+      } else {
+        await printHtml(buildHtmlReport(report, renderMarkdown));
+      }
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      toast.error("Couldn't export the report.");
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const includedCount = messages.length - excluded.size;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export report</DialogTitle>
+          <DialogDescription>
+            The dataset summary, the selected questions and answers, and their charts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <label className="block space-y-1">
+            <span className="text-xs font-medium text-gray-500">Report title</span>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} />
+          </label>
+
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={includeCharts} onChange={(e) => setIncludeCharts(e.target.checked)} />
+              Chart images
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={includePreview} onChange={(e) => setIncludePreview(e.target.checked)} />
+              Data preview
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-500">
+                Messages ({includedCount} of {messages.length})
+              </span>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setExcluded(new Set())}>
+                  All
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setExcluded(new Set(messages.map((_, index) => index)))}
+                >
+                  None
+                </Button>
+              </div>
+            </div>
+            <ul className="max-h-72 divide-y overflow-y-auto rounded-md border">
+              {messages.map((message, index) => (
+                <li key={index}>
+                  <label className="flex cursor-pointer items-start gap-2 px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-900">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={!excluded.has(index)}
+                      onChange={() => toggleMessage(index)}
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="text-xs font-medium text-gray-500">
+                        {message.role === 'user' ? 'Question' : 'Answer'}
+                        {message.charts?.length ? ` · ${message.charts.length} chart(s)` : ''}
+                      </span>
+                      <span className="block truncate">
+                        {message.role === 'assistant' ? message.formattedContent ?? message.content : message.content}
+                      </span>
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <DialogFooter>
+          {([
+            ['markdown', 'Markdown (.zip)'],
+            ['html', 'HTML'],
+            ['pdf', 'Print / PDF'],
+          ] as const).map(([format, label]) => (
+            <Button
+              key={format}
+              variant={format === 'pdf' ? 'default' : 'outline'}
+              disabled={exportingFormat !== null || includedCount === 0}
+              onClick={() => exportReport(format)}
+            >
+              {exportingFormat === format ? 'Preparing...' : label}
+            </Button>
+          ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SavedSessionSummary } from "@/services/session-db";
+
+interface SessionManagerProps {
+  sessions: SavedSessionSummary[];
+  openFileIds: Set<string>;
+  disabled?: boolean;
+  onOpen: (fileId: string) => void;
+  onRename: (fileId: string, name: string) => void;
+  onExport: (fileId: string) => void;
+  onDelete: (fileId: string) => void;
+}
+
+export function SessionManager({
+  sessions,
+  openFileIds,
+  disabled,
+  onOpen,
+  onRename,
+  onExport,
+  onDelete
+}: SessionManagerProps) {
+  const [editingFileId, setEditingFileId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  const startRename = (session: SavedSessionSummary) => {
+    setEditingFileId(session.fileId);
+    setDraftName(session.name);
+  };
+
+  const submitRename = () => {
+    if (editingFileId && draftName.trim()) {
+      onRename(editingFileId, draftName.trim());
+    }
+    setEditingFileId(null);
+  };
+
+  return (
+    <div className="mt-6">
+      <h4 className="font-medium mb-2">Saved Sessions</h4>
+      <ul className="divide-y rounded-lg border">
+        {sessions.map((session) => {
+          const isOpen = openFileIds.has(session.fileId);
+          return (
+            <li key={session.fileId} className="flex items-center justify-between gap-2 p-3">
+              <div className="min-w-0 flex-1">
+                {editingFileId === session.fileId ? (
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitRename();
+                    }}
+                  >
+                    <Input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Escape") setEditingFileId(null);
+                      }}
+                      className="h-8"
+                    />
+                    <Button type="submit" size="sm">Save</Button>
+                  </form>
+                ) : (
+                  <>
+                    <p className="text-sm font-medium truncate" title={session.filename}>{session.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {session.name !== session.filename && <>{session.filename} · </>}
+                      {session.rows} rows · {session.messageCount} messages · Saved {new Date(session.updatedAt).toLocaleString()}
+                    </p>
+                  </>
+                )}
+              </div>
+              {editingFileId !== session.fileId && (
+                <div className="flex gap-1 shrink-0">
+                  <Button size="sm" variant="outline" onClick={() => onOpen(session.fileId)} disabled={disabled}>
+                    {isOpen ? "Switch" : "Open"}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => startRename(session)}>
+                    Rename
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => onExport(session.fileId)}>
+                    Export
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => onDelete(session.fileId)} disabled={isOpen}>
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
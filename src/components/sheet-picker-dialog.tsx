@@ -0,0 +1,119 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import type { QueuedUpload, WorkbookChoice } from '@/lib/upload-queue';
+
+interface SheetPickerDialogProps {
+  workbooks: WorkbookChoice[];
+  onConfirm: (uploads: QueuedUpload[]) => void;
+  onCancel: () => void;
+}
+
+// The first visible sheet of each workbook, as Excel opens it
+function defaultSelection(workbooks: WorkbookChoice[]): string[][] {
+  return workbooks.map(({ sheets }) => {
+    const first = sheets.find(sheet => !sheet.hidden) ?? sheets[0];
+    return first ? [first.name] : [];
+  });
+}
+
+// Asks which sheets of multi-sheet workbooks to upload - each picked sheet
+// becomes its own dataset
+export function SheetPickerDialog({ workbooks, onConfirm, onCancel }: SheetPickerDialogProps) {
+  const [selected, setSelected] = useState(() => defaultSelection(workbooks));
+  const [shownWorkbooks, setShownWorkbooks] = useState(workbooks);
+
+  // More workbooks can be dropped while the dialog is open
+  if (shownWorkbooks !== workbooks) {
+    setShownWorkbooks(workbooks);
+    setSelected(defaultSelection(workbooks).map((names, index) => selected[index] ?? names));
+  }
+
+  const selectedCount = selected.reduce((sum, names) => sum + names.length, 0);
+
+  const toggleSheet = (workbookIndex: number, sheetName: string) => {
+    setSelected(prev => prev.map((names, index) => {
+      if (index !== workbookIndex) return names;
+      return names.includes(sheetName)
+        ? names.filter(name => name !== sheetName)
+        : [...names, sheetName];
+    }));
+  };
+
+  const setAllSheets = (workbookIndex: number, checked: boolean) => {
+    setSelected(prev => prev.map((names, index) =>
+      index === workbookIndex ? (checked ? workbooks[index].sheets.map(sheet => sheet.name) : []) : names
+    ));
+  };
+
+  const handleConfirm = () => {
+    onConfirm(workbooks.flatMap(({ file, sheets }, index) => {
+      const sheetNames = sheets.map(sheet => sheet.name);
+      // Keep workbook order rather than the order the boxes were ticked in
+      return sheetNames
+        .filter(name => selected[index].includes(name))
+        .map(sheetName => ({ file, sheetName, sheetNames }));
+    }));
+  };
+
+  return (
+    <Dialog open={workbooks.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Choose sheets to analyze</DialogTitle>
+          <DialogDescription>
+            {workbooks.length === 1 ? "This workbook has" : "These workbooks have"} several sheets.
+            Each sheet you pick is uploaded as its own dataset.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+          {workbooks.map(({ file, sheets }, workbookIndex) => (
+            <div key={`${file.name}-${workbookIndex}`}>
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="text-sm font-medium truncate" title={file.name}>{file.name}</h4>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setAllSheets(workbookIndex, selected[workbookIndex].length < sheets.length)}
+                >
+                  {selected[workbookIndex].length < sheets.length ? "Select all" : "Select none"}
+                </Button>
+              </div>
+              {sheets.map(sheet => (
+                <label key={sheet.name} className="flex cursor-pointer items-center gap-2 rounded px-1 py-1 text-sm hover:bg-accent">
+                  <input
+                    type="checkbox"
+                    checked={selected[workbookIndex].includes(sheet.name)}
+                    onChange={() => toggleSheet(workbookIndex, sheet.name)}
+                  />
+                  <span className="truncate">{sheet.name}</span>
+                  {sheet.hidden && <span className="text-xs text-muted-foreground">(hidden)</span>}
+                </label>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={selectedCount === 0}>
+            Upload {selectedCount} {selectedCount === 1 ? "sheet" : "sheets"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { DOMAIN_PACKS } from '@/lib/suggestion-packs';
+
+interface SuggestionPackPickerProps {
+  enabledPackIds: string[];
+  onChange: (packIds: string[]) => void;
+}
+
+// Switches for the domain rule packs that suggested insights are drawn from
+export function SuggestionPackPicker({ enabledPackIds, onChange }: SuggestionPackPickerProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  const togglePack = (packId: string) => {
+    onChange(
+      enabledPackIds.includes(packId)
+        ? enabledPackIds.filter((id) => id !== packId)
+        : [...enabledPackIds, packId]
+    );
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-muted-foreground"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        Domains ({enabledPackIds.length}/{DOMAIN_PACKS.length})
+      </Button>
+      {isOpen && (
+        <div className="absolute bottom-full right-0 z-20 mb-1 w-72 rounded-md border bg-popover p-2 text-sm shadow-md">
+          <p className="mb-2 text-xs text-muted-foreground">
+            Suggestions come from general rules plus the domains switched on here.
+          </p>
+          {DOMAIN_PACKS.map((pack) => (
+            <label key={pack.id} className="flex cursor-pointer items-start gap-2 rounded px-1 py-1 hover:bg-accent">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={enabledPackIds.includes(pack.id)}
+                onChange={() => togglePack(pack.id)}
+              />
+              <span>
+                <span className="block font-medium">{pack.name}</span>
+                <span className="block text-xs text-muted-foreground">{pack.description}</span>
+              </span>
+            </label>
+          ))}
+          <div className="mt-1 flex justify-end">
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setIsOpen(false)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
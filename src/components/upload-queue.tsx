@@ -0,0 +1,185 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import {
+  ACCEPTED_UPLOAD_EXTENSIONS,
+  canRetryUpload,
+  formatFileSize,
+  isUploadPending,
+  uploadLabel,
+  UploadQueueItem,
+  UploadStatus
+} from '@/lib/upload-queue';
+
+interface UploadQueueProps {
+  items: UploadQueueItem[];
+  onAddFiles: (files: File[]) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: "Waiting",
+  uploading: "Uploading",
+  done: "Uploaded",
+  failed: "Failed",
+  cancelled: "Cancelled"
+};
+
+// Drop zone taking several files at once, and the list of their uploads
+export function UploadQueue({ items, onAddFiles, onCancel, onRetry, onRemove, onClearFinished }: UploadQueueProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const doneCount = items.filter(item => item.status === "done").length;
+  const hasFinished = items.some(item => !isUploadPending(item));
+
+  const handleDragOver = (event: React.DragEvent) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Moving onto a child element also fires dragleave on the zone
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) onAddFiles(files);
+    // Allow the same files to be selected again
+    event.target.value = "";
+  };
+
+  return (
+    <>
+      <div
+        className={cn(
+          "flex flex-col items-center justify-center p-8 border-2 border-dashed border-gray-300 rounded-lg bg-gray-50 dark:bg-gray-800 transition-colors",
+          isDragging && "border-primary bg-primary/5 dark:bg-primary/10"
+        )}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <svg
+          className="w-12 h-12 mb-4 text-gray-400"
+          xmlns="http://www.w3.org/2000/svg"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+          />
+        </svg>
+        <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+          {isDragging ? (
+            <span className="font-semibold">Drop the files to upload them</span>
+          ) : (
+            <><span className="font-semibold">Choose files</span> or drag and drop them here</>
+          )}
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Excel files (XLSX, XLS) or CSV files - each one becomes its own dataset.
+          Sheets can be picked from XLSX workbooks; XLS files upload their first sheet.
+        </p>
+
+        <Input
+          type="file"
+          accept={ACCEPTED_UPLOAD_EXTENSIONS.join(",")}
+          multiple
+          className="mt-4"
+          onChange={handleInputChange}
+          aria-label="Choose files to upload"
+        />
+      </div>
+
+      {items.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium">
+              Uploads ({doneCount}/{items.length} done)
+            </h4>
+            {hasFinished && (
+              <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onClearFinished}>
+                Clear finished
+              </Button>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {items.map(item => (
+              <li key={item.id} className="rounded-md border p-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate" title={uploadLabel(item)}>{uploadLabel(item)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatFileSize(item.file.size)} ·{" "}
+                      <span
+                        className={cn(
+                          item.status === "done" && "text-green-700 dark:text-green-400",
+                          item.status === "failed" && "text-red-700 dark:text-red-400"
+                        )}
+                      >
+                        {item.status === "uploading"
+                          ? item.progress < 100 ? `Uploading ${item.progress}%` : "Processing file..."
+                          : STATUS_LABELS[item.status]}
+                      </span>
+                    </p>
+                  </div>
+                  {isUploadPending(item) && (
+                    <Button size="sm" variant="outline" className="h-7" onClick={() => onCancel(item.id)}>
+                      Cancel
+                    </Button>
+                  )}
+                  {canRetryUpload(item) && (
+                    <Button size="sm" variant="outline" className="h-7" onClick={() => onRetry(item.id)}>
+                      Retry
+                    </Button>
+                  )}
+                  {!isUploadPending(item) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7"
+                      onClick={() => onRemove(item.id)}
+                      aria-label={`Remove ${uploadLabel(item)} from the list`}
+                    >
+                      ✕
+                    </Button>
+                  )}
+                </div>
+                {item.status === "uploading" && (
+                  <Progress value={item.progress} className="h-1.5 mt-2" />
+                )}
+                {item.notice && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">{item.notice}</p>
+                )}
+                {item.error && (
+                  <p className="text-xs text-red-700 dark:text-red-400 mt-1">{item.error}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
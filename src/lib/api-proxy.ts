@@ -0,0 +1,202 @@
+// Server side of the same-origin API proxy under /api/proxy: which backend
+// routes may be reached through it, upload limits, per-client rate limiting
+// and request logging.
+
+import { BACKEND_API_BASE_URL } from "@/services/api";
+import { ACCEPTED_UPLOAD_EXTENSIONS } from "./upload-queue";
+
+export const PROXY_TARGET = (
+  process.env.API_PROXY_TARGET || BACKEND_API_BASE_URL
+).replace(/\/+$/, "");
+
+const MAX_UPLOAD_MB = Number(process.env.API_PROXY_MAX_UPLOAD_MB ?? 25);
+export const MAX_UPLOAD_BYTES = MAX_UPLOAD_MB * 1024 * 1024;
+export const UPLOAD_TOO_LARGE = `The file is larger than the ${MAX_UPLOAD_MB} MB upload limit`;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.API_PROXY_RATE_LIMIT ?? 60);
+const RATE_LIMIT_WINDOW_MS = 60_000;
+// Proxies in front of this app that append to X-Forwarded-For
+const TRUSTED_PROXY_HOPS = Math.max(
+  1,
+  Number(process.env.API_PROXY_TRUSTED_HOPS ?? 1) || 1
+);
+// Forget idle clients once this many are being tracked
+const MAX_TRACKED_CLIENTS = 10_000;
+
+// Browsers report spreadsheets under several types, or none at all
+const UPLOAD_MIME_TYPES = [
+  "",
+  "application/octet-stream",
+  "text/csv",
+  "text/plain",
+  "application/csv",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+export interface ProxyRoute {
+  pattern: RegExp; // Matched against the path after /api/proxy/
+  method: "GET" | "POST";
+  trailingSlash?: boolean; // The backend expects the path to end in a slash
+  upload?: boolean;
+}
+
+// Only these backend endpoints can be reached through the proxy
+const PROXY_ROUTES: ProxyRoute[] = [
+  { pattern: /^$/, method: "GET" },
+  { pattern: /^auth\/login$/, method: "POST" },
+  {
+    pattern: /^upload\/file$/,
+    method: "POST",
+    trailingSlash: true,
+    upload: true,
+  },
+  { pattern: /^chat$/, method: "POST", trailingSlash: true },
+  { pattern: /^chat\/stream$/, method: "POST", trailingSlash: true },
+  { pattern: /^conversations\/[^/]+$/, method: "GET" },
+  { pattern: /^rows\/[^/]+$/, method: "GET" },
+  { pattern: /^profile\/[^/]+$/, method: "GET" },
+];
+
+/**
+ * The proxied path as sent on to the backend. Next hands over the segments
+ * decoded, so each is encoded again - otherwise a "%3F" or "%2F" in an id
+ * would reach the backend as a query string or another path segment. Returns
+ * null for "." and ".." segments, which would move the backend path off the
+ * allow-list.
+ */
+export function proxyPath(segments: string[]): string | null {
+  if (segments.some((segment) => segment === "." || segment === "..")) {
+    return null;
+  }
+  return segments.map(encodeURIComponent).join("/");
+}
+
+/**
+ * Find the route a proxied path and method are allowed under
+ */
+export function matchProxyRoute(
+  path: string,
+  method: string
+): ProxyRoute | undefined {
+  return PROXY_ROUTES.find(
+    (route) => route.method === method && route.pattern.test(path)
+  );
+}
+
+/**
+ * The backend URL a proxied request is forwarded to
+ */
+export function backendUrl(
+  route: ProxyRoute,
+  path: string,
+  search: string
+): string {
+  const backendPath = path && route.trailingSlash ? `${path}/` : path;
+  return `${PROXY_TARGET}/${backendPath}${search}`;
+}
+
+/**
+ * Identify the client for rate limiting. Each trusted proxy appends the
+ * address it saw to X-Forwarded-For, so the client is the entry added by the
+ * outermost trusted proxy, counted from the right. Entries further left are
+ * whatever the client sent and can't be trusted.
+ */
+export function clientKey(request: Request): string {
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return (
+    hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] ||
+    request.headers.get("x-real-ip") ||
+    "local"
+  );
+}
+
+interface RateWindow {
+  startedAt: number;
+  count: number;
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  apiProxyRateWindows?: Map<string, RateWindow>;
+};
+const rateWindows = (globalStore.apiProxyRateWindows ??= new Map<
+  string,
+  RateWindow
+>());
+
+/**
+ * Count a request against the client's allowance for the current minute.
+ * Returns how many seconds to wait when the allowance is used up.
+ */
+export function checkRateLimit(key: string, now = Date.now()): number | null {
+  if (rateWindows.size > MAX_TRACKED_CLIENTS) {
+    rateWindows.forEach((window, trackedKey) => {
+      if (now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+        rateWindows.delete(trackedKey);
+      }
+    });
+  }
+
+  const current = rateWindows.get(key);
+  if (!current || now - current.startedAt >= RATE_LIMIT_WINDOW_MS) {
+    rateWindows.set(key, { startedAt: now, count: 1 });
+    return null;
+  }
+  if (current.count >= RATE_LIMIT_PER_MINUTE) {
+    return Math.ceil((current.startedAt + RATE_LIMIT_WINDOW_MS - now) / 1000);
+  }
+  current.count += 1;
+  return null;
+}
+
+/**
+ * Check an uploaded file against the size and type limits, returning what is
+ * wrong with it
+ */
+export function validateUpload(file: File): string | null {
+  const dot = file.name.lastIndexOf(".");
+  const extension = dot === -1 ? "" : file.name.slice(dot).toLowerCase();
+  if (!ACCEPTED_UPLOAD_EXTENSIONS.includes(extension)) {
+    return `Unsupported file type "${extension || file.name}". Upload a CSV or Excel file (${ACCEPTED_UPLOAD_EXTENSIONS.join(", ")}).`;
+  }
+  if (!UPLOAD_MIME_TYPES.includes(file.type)) {
+    return `Unsupported content type "${file.type}" for ${file.name}`;
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return UPLOAD_TOO_LARGE;
+  }
+  return null;
+}
+
+interface ProxyLogEntry {
+  requestId: string;
+  method: string;
+  path: string;
+  client: string;
+  status: number;
+  startedAt: number;
+  detail?: string;
+}
+
+/**
+ * Log one proxied request as a single JSON line
+ */
+export function logProxyRequest({
+  startedAt,
+  detail,
+  ...entry
+}: ProxyLogEntry) {
+  const line = JSON.stringify({
+    source: "api-proxy",
+    ...entry,
+    durationMs: Date.now() - startedAt,
+    ...(detail ? { detail } : {}),
+  });
+  if (entry.status >= 500) {
+    console.error(line);
+  } else {
+    console.info(line);
+  }
+}
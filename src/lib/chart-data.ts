@@ -0,0 +1,785 @@
+// The chart-data protocol: AI responses embed charts as JSON in ```chart-data
+// fenced blocks. This module parses those blocks, validates them against the
+// ChartData shape and repairs the mistakes the model commonly makes.
+
+import {
+  BinningMethod,
+  BoxSummary,
+  boxSummary,
+  histogramBins,
+  MAX_BIN_COUNT,
+  suggestBinCount,
+} from "./statistics";
+
+export type ChartType =
+  | "bar"
+  | "line"
+  | "pie"
+  | "doughnut"
+  | "polarArea"
+  | "scatter"
+  | "heatmap"
+  | "histogram"
+  | "boxplot";
+
+export const CHART_TYPES: ChartType[] = [
+  "bar",
+  "line",
+  "pie",
+  "doughnut",
+  "polarArea",
+  "scatter",
+  "heatmap",
+  "histogram",
+  "boxplot",
+];
+
+export interface DataPoint {
+  label: string;
+  value: number;
+}
+
+export interface ChartDataset {
+  label: string;
+  data: number[] | Array<{ x: number; y: number }>;
+  backgroundColor?: string | string[];
+  borderColor?: string | string[];
+  borderWidth?: number;
+  // Boxplot only - one summary per label, with the medians mirrored in data
+  boxes?: Array<BoxSummary | null>;
+}
+
+// A 2D grid of values for heatmaps, e.g. a correlation matrix
+export interface HeatmapMatrix {
+  xLabels: string[];
+  yLabels: string[];
+  values: number[][]; // values[row][column], one row per y label
+}
+
+export type HeatmapColorScale = "sequential" | "diverging";
+
+// A binning rule, or a fixed number of bins
+export type HistogramBinning = BinningMethod | number;
+
+export interface ChartData {
+  title: string;
+  description: string;
+  type: ChartType;
+  labels: string[];
+  datasets: ChartDataset[];
+  // Heatmap only - the grid, mirrored in labels (columns) and datasets (rows)
+  matrix?: HeatmapMatrix;
+  colorScale?: HeatmapColorScale;
+  showValues?: boolean;
+  // Histogram only - raw values binned on the client, mirrored in labels/datasets
+  values?: number[];
+  binning?: HistogramBinning;
+  showDensity?: boolean;
+  // Display options, mostly set through the chart editor
+  xAxisTitle?: string;
+  yAxisTitle?: string;
+  stacked?: boolean;
+  yScale?: AxisScale;
+  // Changes made in the chart editor, applied on top of the chart as sent
+  edits?: ChartEdits;
+}
+
+export type AxisScale = "linear" | "logarithmic";
+
+export interface ChartEdits {
+  type?: ChartType;
+  title?: string;
+  xAxisTitle?: string;
+  yAxisTitle?: string;
+  hiddenDatasets?: number[]; // Indexes into the original datasets
+  labelOrder?: number[]; // Original label indexes in display order
+  palette?: string[];
+  stacked?: boolean;
+  yScale?: AxisScale;
+  binCount?: number; // Histograms binned from raw values
+}
+
+export interface ChartParseError {
+  raw: string; // The block's JSON text as the AI sent it
+  errors: string[];
+}
+
+// Mistakes in a chart-data block that were fixed so the chart could be drawn
+export interface ChartRepair {
+  title: string;
+  repairs: string[];
+}
+
+export type ChartValidationResult =
+  | { ok: true; chart: ChartData; warnings: string[] }
+  | { ok: false; errors: string[] };
+
+// Default series colors, used when the AI doesn't send any
+export const DEFAULT_CHART_COLORS = [
+  "#3b82f6",
+  "#ef4444",
+  "#10b981",
+  "#f59e0b",
+  "#8b5cf6",
+  "#ec4899",
+  "#14b8a6",
+  "#f97316",
+  "#6366f1",
+  "#84cc16",
+];
+
+// Charts where every label is a slice and gets its own color
+const PER_LABEL_COLOR_TYPES: ChartType[] = ["pie", "doughnut", "polarArea"];
+
+// Spellings the AI uses for the supported chart types
+const CHART_TYPE_ALIASES: Record<string, ChartType> = {
+  column: "bar",
+  bars: "bar",
+  area: "line",
+  polar: "polarArea",
+  polararea: "polarArea",
+  "polar-area": "polarArea",
+  donut: "doughnut",
+  box: "boxplot",
+  "box-plot": "boxplot",
+  heat: "heatmap",
+  "heat-map": "heatmap",
+  hist: "histogram",
+};
+
+const CHART_DATA_BLOCK_REGEX = /```chart-data\n([\s\S]*?)\n```/g;
+
+/**
+ * Add transparency to a hex color, e.g. for bar fills
+ */
+export function withAlpha(color: string, alpha: number): string {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) return color;
+  const value = Math.round(alpha * 255)
+    .toString(16)
+    .padStart(2, "0");
+  return `#${match[1]}${value}`;
+}
+
+/**
+ * Convert a value the AI sent into a number: accepts numbers and numeric
+ * strings such as "1,234", "$12.50" or "45%". Returns NaN otherwise.
+ */
+export function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    const cleaned = value.replace(/[,\s$€£%]/g, "");
+    if (cleaned !== "" && isFinite(Number(cleaned))) return Number(cleaned);
+  }
+  return NaN;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function normalizeType(value: unknown): ChartType | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  if ((CHART_TYPES as string[]).includes(trimmed)) return trimmed as ChartType;
+  const lower = trimmed.toLowerCase();
+  return (
+    CHART_TYPES.find((type) => type.toLowerCase() === lower) ??
+    CHART_TYPE_ALIASES[lower]
+  );
+}
+
+function normalizePoints(
+  data: unknown[],
+  warnings: string[],
+  seriesName: string
+) {
+  const points: Array<{ x: number; y: number }> = [];
+  data.forEach((point) => {
+    const [x, y] = Array.isArray(point)
+      ? [toNumber(point[0]), toNumber(point[1])]
+      : isRecord(point)
+        ? [toNumber(point.x), toNumber(point.y)]
+        : [NaN, NaN];
+    if (isFinite(x) && isFinite(y)) points.push({ x, y });
+  });
+  if (points.length < data.length) {
+    warnings.push(
+      `${seriesName}: dropped ${data.length - points.length} point(s) without numeric x and y`
+    );
+  }
+  return points;
+}
+
+function normalizeValues(
+  data: unknown[],
+  warnings: string[],
+  seriesName: string
+) {
+  const values = data.map(toNumber);
+  const invalid = values.filter((value) => isNaN(value)).length;
+  if (invalid > 0) {
+    warnings.push(`${seriesName}: ${invalid} non-numeric value(s) left empty`);
+  }
+  return values;
+}
+
+const BOX_SUMMARY_KEYS = ["min", "q1", "median", "q3", "max"] as const;
+
+/**
+ * Read boxplot entries - each is either an array of raw values, summarised
+ * here, or a precomputed { min, q1, median, q3, max, outliers? } object
+ */
+function normalizeBoxes(
+  data: unknown[],
+  errors: string[],
+  warnings: string[],
+  seriesName: string
+): Array<BoxSummary | null> {
+  return data.map((entry, index) => {
+    const entryName = `${seriesName}, entry ${index + 1}`;
+
+    if (Array.isArray(entry)) {
+      const summary = boxSummary(entry.map(toNumber));
+      if (!summary) warnings.push(`${entryName}: no numeric values`);
+      return summary;
+    }
+
+    if (isRecord(entry)) {
+      const numbers = BOX_SUMMARY_KEYS.map((key) => toNumber(entry[key]));
+      if (numbers.some((value) => !Number.isFinite(value))) {
+        errors.push(
+          `${entryName}: a box summary needs numeric ${BOX_SUMMARY_KEYS.join(", ")}`
+        );
+        return null;
+      }
+      const sorted = [...numbers].sort((a, b) => a - b);
+      if (sorted.some((value, i) => value !== numbers[i])) {
+        warnings.push(`${entryName}: summary values were out of order`);
+      }
+      const [min, q1, median, q3, max] = sorted;
+      return {
+        min,
+        q1,
+        median,
+        q3,
+        max,
+        mean: Number.isFinite(toNumber(entry.mean))
+          ? toNumber(entry.mean)
+          : undefined,
+        outliers: Array.isArray(entry.outliers)
+          ? entry.outliers.map(toNumber).filter(Number.isFinite)
+          : [],
+      };
+    }
+
+    errors.push(
+      `${entryName}: expected an array of values or a five-number summary`
+    );
+    return null;
+  });
+}
+
+/**
+ * The AI often sends one dataset per group with a flat list of raw values.
+ * Reshape that into one dataset with a box per group.
+ */
+function reshapeFlatBoxplot(rawDatasets: unknown[], warnings: string[]) {
+  const isFlat = rawDatasets.every(
+    (raw) =>
+      isRecord(raw) &&
+      Array.isArray(raw.data) &&
+      raw.data.every((value) => !Array.isArray(value) && !isRecord(value))
+  );
+  if (!isFlat) return null;
+
+  warnings.push("Treated each dataset as the raw values of one box");
+  const records = rawDatasets as Array<Record<string, unknown>>;
+  return {
+    labels: records.map((raw, index) =>
+      typeof raw.label === "string" && raw.label
+        ? raw.label
+        : `Group ${index + 1}`
+    ),
+    datasets: [{ label: "Values", data: records.map((raw) => raw.data) }],
+  };
+}
+
+function normalizeColors(
+  dataset: ChartDataset,
+  index: number,
+  type: ChartType,
+  labelCount: number,
+  palette: string[] = DEFAULT_CHART_COLORS
+): ChartDataset {
+  if (PER_LABEL_COLOR_TYPES.includes(type)) {
+    const colors = Array.from(
+      { length: labelCount },
+      (_, i) => palette[i % palette.length]
+    );
+    return {
+      ...dataset,
+      backgroundColor:
+        dataset.backgroundColor ?? colors.map((color) => withAlpha(color, 0.8)),
+      borderColor: dataset.borderColor ?? colors,
+      borderWidth: dataset.borderWidth ?? 1,
+    };
+  }
+
+  const color = palette[index % palette.length];
+  return {
+    ...dataset,
+    backgroundColor:
+      dataset.backgroundColor ?? withAlpha(color, type === "line" ? 0.2 : 0.7),
+    borderColor: dataset.borderColor ?? color,
+    borderWidth: dataset.borderWidth ?? (type === "line" ? 2 : 1),
+  };
+}
+
+/**
+ * Replace dataset colors with a palette, coloring per label for slice charts
+ */
+export function recolorDatasets(
+  datasets: ChartDataset[],
+  type: ChartType,
+  labelCount: number,
+  palette: string[] = DEFAULT_CHART_COLORS
+): ChartDataset[] {
+  return datasets.map((dataset, index) =>
+    normalizeColors(
+      {
+        ...dataset,
+        backgroundColor: undefined,
+        borderColor: undefined,
+        borderWidth: undefined,
+      },
+      index,
+      type,
+      labelCount,
+      palette
+    )
+  );
+}
+
+/**
+ * Read a heatmap grid sent as `matrix: { xLabels, yLabels, values }`, padding
+ * ragged rows and generating missing labels
+ */
+function normalizeMatrix(
+  raw: Record<string, unknown>,
+  errors: string[],
+  warnings: string[]
+): HeatmapMatrix | undefined {
+  if (!Array.isArray(raw.values) || raw.values.length === 0) {
+    errors.push('"matrix.values" must be a non-empty array of rows');
+    return undefined;
+  }
+  if (!raw.values.every(Array.isArray)) {
+    errors.push('Every row of "matrix.values" must be an array');
+    return undefined;
+  }
+
+  const rows = raw.values as unknown[][];
+  const columnCount = Math.max(
+    Array.isArray(raw.xLabels) ? raw.xLabels.length : 0,
+    ...rows.map((row) => row.length)
+  );
+  const values = rows.map((row, index) => {
+    const normalized = normalizeValues(
+      row,
+      warnings,
+      `Matrix row ${index + 1}`
+    );
+    return normalized.length < columnCount
+      ? [
+          ...normalized,
+          ...Array<number>(columnCount - normalized.length).fill(NaN),
+        ]
+      : normalized;
+  });
+
+  const readLabels = (labels: unknown, count: number, name: string) => {
+    const given = Array.isArray(labels)
+      ? labels.map((label) => String(label ?? ""))
+      : [];
+    if (given.length < count) {
+      warnings.push(
+        `Generated ${count - given.length} missing ${name} label(s)`
+      );
+    }
+    return [
+      ...given.slice(0, count),
+      ...Array.from(
+        { length: Math.max(0, count - given.length) },
+        (_, i) => `${given.length + i + 1}`
+      ),
+    ];
+  };
+
+  return {
+    xLabels: readLabels(raw.xLabels, columnCount, "x"),
+    yLabels: readLabels(raw.yLabels, values.length, "y"),
+    values,
+  };
+}
+
+/**
+ * Get the grid for a heatmap, building it from labels (columns) and datasets
+ * (rows) when the chart has no explicit matrix
+ */
+export function getHeatmapMatrix(chart: ChartData): HeatmapMatrix {
+  if (chart.matrix) return chart.matrix;
+  return {
+    xLabels: chart.labels,
+    yLabels: chart.datasets.map((dataset) => dataset.label),
+    values: chart.datasets.map((dataset) =>
+      (dataset.data as unknown[]).map(toNumber)
+    ),
+  };
+}
+
+function formatBinEdge(value: number): string {
+  return Number.isInteger(value)
+    ? String(value)
+    : String(Number(value.toPrecision(3)));
+}
+
+/**
+ * Number of bins for a histogram's raw values under its binning setting
+ */
+export function getHistogramBinCount(
+  values: number[],
+  binning: HistogramBinning = "freedman-diaconis"
+): number {
+  return typeof binning === "number"
+    ? Math.min(Math.max(1, Math.round(binning)), MAX_BIN_COUNT)
+    : suggestBinCount(values, binning);
+}
+
+/**
+ * Bin raw values into the labels (bin ranges) and counts of a histogram
+ */
+export function binHistogram(
+  values: number[],
+  binCount: number
+): Pick<ChartData, "labels" | "datasets"> {
+  const bins = histogramBins(values, binCount);
+  return {
+    labels: bins.map(
+      (bin) => `${formatBinEdge(bin.start)}–${formatBinEdge(bin.end)}`
+    ),
+    datasets: [{ label: "Frequency", data: bins.map((bin) => bin.count) }],
+  };
+}
+
+function readHistogramBinning(
+  input: Record<string, unknown>,
+  warnings: string[]
+): HistogramBinning {
+  const { binning } = input;
+  if (binning === undefined) return "freedman-diaconis";
+  if (typeof binning === "number" && binning >= 1) {
+    return Math.min(Math.round(binning), MAX_BIN_COUNT);
+  }
+  if (typeof binning === "string") {
+    const key = binning.toLowerCase().replace(/[\s_–]+/g, "-");
+    if (key === "sturges") return "sturges";
+    if (key === "freedman-diaconis" || key === "fd") return "freedman-diaconis";
+  }
+  warnings.push(
+    `Unknown binning "${String(binning)}" - used Freedman–Diaconis`
+  );
+  return "freedman-diaconis";
+}
+
+function isColorValue(value: unknown): value is string | string[] {
+  return (
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((item) => typeof item === "string"))
+  );
+}
+
+/**
+ * Check that a parsed chart-data block has the ChartData shape, repairing what
+ * can be repaired. Warnings describe repairs; errors explain a rejection.
+ */
+export function validateChartData(input: unknown): ChartValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(input)) {
+    return { ok: false, errors: ["Chart data must be a JSON object"] };
+  }
+
+  const type = normalizeType(input.type);
+  if (!type) {
+    errors.push(
+      input.type === undefined
+        ? 'Missing "type"'
+        : `Unsupported chart type "${String(input.type)}" (expected one of: ${CHART_TYPES.join(", ")})`
+    );
+  } else if (type !== input.type) {
+    warnings.push(`Chart type "${String(input.type)}" read as "${type}"`);
+  }
+
+  // Heatmaps may send their grid as a matrix instead of labels/datasets
+  if (type === "heatmap" && isRecord(input.matrix)) {
+    const matrix = normalizeMatrix(input.matrix, errors, warnings);
+    if (!matrix) return { ok: false, errors };
+    return {
+      ok: true,
+      warnings,
+      chart: {
+        ...readChartText(input, warnings),
+        type,
+        labels: matrix.xLabels,
+        datasets: matrix.yLabels.map((label, index) => ({
+          label,
+          data: matrix.values[index],
+        })),
+        matrix,
+        ...readHeatmapOptions(input),
+      },
+    };
+  }
+
+  // Histograms may send raw values to be binned here instead of counts
+  if (type === "histogram" && Array.isArray(input.values)) {
+    const values = normalizeValues(input.values, warnings, "Values").filter(
+      (value) => Number.isFinite(value)
+    );
+    if (values.length === 0) {
+      return { ok: false, errors: ['"values" has no numeric values'] };
+    }
+    const binning = readHistogramBinning(input, warnings);
+    const { labels, datasets } = binHistogram(
+      values,
+      getHistogramBinCount(values, binning)
+    );
+    return {
+      ok: true,
+      warnings,
+      chart: {
+        ...readChartText(input, warnings),
+        type,
+        labels,
+        datasets: datasets.map((dataset, index) =>
+          normalizeColors(dataset, index, type, labels.length)
+        ),
+        values,
+        binning,
+        showDensity: input.showDensity === true,
+      },
+    };
+  }
+
+  if (!Array.isArray(input.datasets) || input.datasets.length === 0) {
+    errors.push('"datasets" must be a non-empty array');
+  }
+  if (input.labels !== undefined && !Array.isArray(input.labels)) {
+    errors.push('"labels" must be an array');
+  }
+  if (errors.length > 0 || !type) {
+    return { ok: false, errors };
+  }
+
+  let rawDatasets = input.datasets as unknown[];
+  let rawLabels = input.labels;
+  if (type === "boxplot") {
+    const reshaped = reshapeFlatBoxplot(rawDatasets, warnings);
+    if (reshaped) {
+      rawDatasets = reshaped.datasets;
+      rawLabels = reshaped.labels;
+    }
+  }
+
+  const datasets: ChartDataset[] = [];
+  rawDatasets.forEach((raw, index) => {
+    const seriesName = `Dataset ${index + 1}`;
+    if (!isRecord(raw)) {
+      errors.push(`${seriesName} must be an object`);
+      return;
+    }
+    if (!Array.isArray(raw.data)) {
+      errors.push(`${seriesName} is missing a "data" array`);
+      return;
+    }
+
+    const boxes =
+      type === "boxplot"
+        ? normalizeBoxes(raw.data, errors, warnings, seriesName)
+        : undefined;
+    const data = boxes
+      ? boxes.map((box) => box?.median ?? NaN)
+      : type === "scatter"
+        ? normalizePoints(raw.data, warnings, seriesName)
+        : normalizeValues(raw.data, warnings, seriesName);
+
+    datasets.push({
+      label:
+        typeof raw.label === "string" && raw.label ? raw.label : seriesName,
+      data,
+      backgroundColor: isColorValue(raw.backgroundColor)
+        ? raw.backgroundColor
+        : undefined,
+      borderColor: isColorValue(raw.borderColor) ? raw.borderColor : undefined,
+      borderWidth:
+        typeof raw.borderWidth === "number" ? raw.borderWidth : undefined,
+      ...(boxes ? { boxes } : {}),
+    });
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  if (datasets.every((dataset) => dataset.data.length === 0)) {
+    return { ok: false, errors: ["Every dataset is empty"] };
+  }
+
+  let labels = Array.isArray(rawLabels)
+    ? rawLabels.map((label) => String(label ?? ""))
+    : [];
+
+  // Line labels and values up: pad missing labels, pad short series with empty values
+  if (type !== "scatter") {
+    const longest = Math.max(...datasets.map((dataset) => dataset.data.length));
+    if (labels.length < longest) {
+      if (labels.length > 0) {
+        warnings.push(
+          `Only ${labels.length} label(s) for ${longest} value(s) - generated the rest`
+        );
+      }
+      labels = [
+        ...labels,
+        ...Array.from(
+          { length: longest - labels.length },
+          (_, i) => `Item ${labels.length + i + 1}`
+        ),
+      ];
+    }
+    datasets.forEach((dataset) => {
+      const values = dataset.data as number[];
+      if (values.length < labels.length) {
+        warnings.push(
+          `${dataset.label}: padded ${labels.length - values.length} missing value(s)`
+        );
+        dataset.data = [
+          ...values,
+          ...Array<number>(labels.length - values.length).fill(NaN),
+        ];
+        if (dataset.boxes) {
+          dataset.boxes = [
+            ...dataset.boxes,
+            ...Array<null>(labels.length - dataset.boxes.length).fill(null),
+          ];
+        }
+      }
+    });
+  }
+
+  return {
+    ok: true,
+    warnings,
+    chart: {
+      ...readChartText(input, warnings),
+      type,
+      labels,
+      datasets: datasets.map((dataset, index) =>
+        normalizeColors(dataset, index, type, labels.length)
+      ),
+      ...(type === "heatmap" ? readHeatmapOptions(input) : {}),
+    },
+  };
+}
+
+function readChartText(
+  input: Record<string, unknown>,
+  warnings: string[]
+): Pick<ChartData, "title" | "description"> {
+  const hasTitle = typeof input.title === "string" && input.title.trim();
+  if (!hasTitle) {
+    warnings.push("Missing title");
+  }
+  return {
+    title: hasTitle ? (input.title as string) : "Untitled chart",
+    description: typeof input.description === "string" ? input.description : "",
+  };
+}
+
+function readHeatmapOptions(
+  input: Record<string, unknown>
+): Pick<ChartData, "colorScale" | "showValues"> {
+  return {
+    colorScale:
+      input.colorScale === "sequential" || input.colorScale === "diverging"
+        ? input.colorScale
+        : undefined,
+    showValues:
+      typeof input.showValues === "boolean" ? input.showValues : undefined,
+  };
+}
+
+/**
+ * Parse JSON from a chart-data block, tolerating trailing commas
+ */
+function parseBlockJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    try {
+      return JSON.parse(raw.replace(/,\s*([\]}])/g, "$1"));
+    } catch {
+      throw err;
+    }
+  }
+}
+
+/**
+ * Extract every chart-data block from an AI response, returning the valid
+ * (normalised) charts, what had to be fixed in them, and an explanation for
+ * each block that was rejected
+ */
+export function parseChartData(analysisText: string): {
+  charts: ChartData[];
+  errors: ChartParseError[];
+  repairs: ChartRepair[];
+} {
+  const charts: ChartData[] = [];
+  const errors: ChartParseError[] = [];
+  const repairs: ChartRepair[] = [];
+
+  for (const match of analysisText.matchAll(CHART_DATA_BLOCK_REGEX)) {
+    const raw = match[1];
+    let parsed: unknown;
+    try {
+      parsed = parseBlockJson(raw);
+    } catch (err) {
+      errors.push({
+        raw,
+        errors: [
+          `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+        ],
+      });
+      continue;
+    }
+
+    const result = validateChartData(parsed);
+    if (result.ok) {
+      charts.push(result.chart);
+      if (result.warnings.length > 0) {
+        repairs.push({ title: result.chart.title, repairs: result.warnings });
+      }
+    } else {
+      errors.push({ raw, errors: result.errors });
+    }
+  }
+
+  return { charts, errors, repairs };
+}
+
+/**
+ * Helper function to convert AI response with chart data into visualization-ready format
+ */
+export function parseChartDataFromResponse(analysisText: string): ChartData[] {
+  return parseChartData(analysisText).charts;
+}
@@ -0,0 +1,225 @@
+// Edits made to an AI-generated chart in the chart editor. Edits are stored
+// on the chart next to the spec as sent, so they can always be reset.
+
+import {
+  binHistogram,
+  ChartData,
+  ChartEdits,
+  ChartType,
+  DEFAULT_CHART_COLORS,
+  getHistogramBinCount,
+  recolorDatasets,
+} from "./chart-data";
+
+export interface ChartPalette {
+  name: string;
+  colors: string[];
+}
+
+export const CHART_PALETTES: ChartPalette[] = [
+  { name: "Default", colors: DEFAULT_CHART_COLORS },
+  {
+    // Okabe-Ito, distinguishable with common forms of color blindness
+    name: "Color-blind safe",
+    colors: [
+      "#0072b2",
+      "#e69f00",
+      "#009e73",
+      "#cc79a7",
+      "#56b4e9",
+      "#d55e00",
+      "#f0e442",
+      "#000000",
+    ],
+  },
+  {
+    name: "Pastel",
+    colors: [
+      "#93c5fd",
+      "#fca5a5",
+      "#86efac",
+      "#fcd34d",
+      "#c4b5fd",
+      "#f9a8d4",
+      "#5eead4",
+      "#fdba74",
+    ],
+  },
+  {
+    name: "Blues",
+    colors: ["#1e3a8a", "#1d4ed8", "#3b82f6", "#60a5fa", "#93c5fd", "#bfdbfe"],
+  },
+  {
+    name: "Earth",
+    colors: ["#78350f", "#b45309", "#65a30d", "#15803d", "#0f766e", "#a16207"],
+  },
+];
+
+export type LabelSort = "label-asc" | "label-desc" | "value-asc" | "value-desc";
+
+// Chart types that draw labels against a value axis
+const CATEGORY_TYPES: ChartType[] = [
+  "bar",
+  "line",
+  "pie",
+  "doughnut",
+  "polarArea",
+  "histogram",
+  "heatmap",
+];
+
+export const STACKABLE_TYPES: ChartType[] = ["bar", "line"];
+export const AXIS_TYPES: ChartType[] = ["bar", "line", "scatter", "histogram"];
+
+/**
+ * Types a chart can switch to without changing the shape of its data
+ */
+export function editableChartTypes(chart: ChartData): ChartType[] {
+  switch (chart.type) {
+    case "scatter":
+      return ["scatter"];
+    case "boxplot":
+      // Bar and line charts plot the medians
+      return ["boxplot", "bar", "line"];
+    default:
+      return CATEGORY_TYPES;
+  }
+}
+
+/**
+ * Whether labels can be sorted and reordered - not for scatter points or
+ * histograms binned from raw values
+ */
+export function canReorderLabels(chart: ChartData): boolean {
+  const type = chart.edits?.type ?? chart.type;
+  return type !== "scatter" && !(type === "histogram" && chart.values);
+}
+
+/**
+ * The chart as it should be displayed, with its edits applied
+ */
+export function applyChartEdits(chart: ChartData): ChartData {
+  const { edits, ...original } = chart;
+  if (!edits) return chart;
+
+  const type = edits.type ?? original.type;
+  let { labels, datasets, matrix, binning } = original;
+
+  if (type === "histogram" && original.values && edits.binCount) {
+    binning = getHistogramBinCount(original.values, edits.binCount);
+    const binned = binHistogram(original.values, binning);
+    labels = binned.labels;
+    // Keep the series' colors, with the counts of the new bins
+    datasets = binned.datasets.map((dataset, index) => ({
+      ...original.datasets[index],
+      ...dataset,
+    }));
+  }
+
+  const order = edits.labelOrder;
+  if (order && order.length === labels.length) {
+    labels = order.map((index) => original.labels[index]);
+    datasets = datasets.map((dataset) => ({
+      ...dataset,
+      data: order.map((index) => (dataset.data as number[])[index]),
+      ...(dataset.boxes
+        ? { boxes: order.map((index) => dataset.boxes?.[index] ?? null) }
+        : {}),
+    }));
+    // Heatmaps rebuild their grid from labels and datasets
+    matrix = undefined;
+  }
+
+  if (edits.hiddenDatasets?.length) {
+    datasets = datasets.filter(
+      (_, index) => !edits.hiddenDatasets?.includes(index)
+    );
+    matrix = undefined;
+  }
+
+  if (edits.palette || type !== original.type) {
+    datasets = recolorDatasets(datasets, type, labels.length, edits.palette);
+  }
+
+  return {
+    ...original,
+    type,
+    title: edits.title || original.title,
+    labels,
+    datasets,
+    matrix,
+    values: type === "histogram" ? original.values : undefined,
+    binning,
+    xAxisTitle: edits.xAxisTitle ?? original.xAxisTitle,
+    yAxisTitle: edits.yAxisTitle ?? original.yAxisTitle,
+    stacked: edits.stacked ?? original.stacked,
+    yScale: edits.yScale ?? original.yScale,
+  };
+}
+
+/**
+ * Merge changes into a chart's edits
+ */
+export function updateChartEdits(
+  chart: ChartData,
+  changes: Partial<ChartEdits>
+): ChartData {
+  return { ...chart, edits: { ...chart.edits, ...changes } };
+}
+
+/**
+ * Drop every edit, going back to the chart as the AI sent it
+ */
+export function resetChartEdits(chart: ChartData): ChartData {
+  const original = { ...chart };
+  delete original.edits;
+  return original;
+}
+
+/**
+ * Label order for a sort, by label text or by the total of the visible
+ * datasets' values
+ */
+export function sortedLabelOrder(chart: ChartData, sort: LabelSort): number[] {
+  const hidden = chart.edits?.hiddenDatasets ?? [];
+  const total = (index: number) =>
+    chart.datasets.reduce((sum, dataset, datasetIndex) => {
+      const value = (dataset.data as number[])[index];
+      return hidden.includes(datasetIndex) || !Number.isFinite(value)
+        ? sum
+        : sum + value;
+    }, 0);
+  const collator = new Intl.Collator(undefined, { numeric: true });
+
+  return chart.labels
+    .map((_, index) => index)
+    .sort((a, b) => {
+      switch (sort) {
+        case "label-asc":
+          return collator.compare(chart.labels[a], chart.labels[b]);
+        case "label-desc":
+          return collator.compare(chart.labels[b], chart.labels[a]);
+        case "value-asc":
+          return total(a) - total(b);
+        case "value-desc":
+          return total(b) - total(a);
+      }
+    });
+}
+
+/**
+ * Move one label in the display order up or down by one place
+ */
+export function moveLabel(
+  chart: ChartData,
+  position: number,
+  offset: -1 | 1
+): number[] {
+  const order = [
+    ...(chart.edits?.labelOrder ?? chart.labels.map((_, index) => index)),
+  ];
+  const target = position + offset;
+  if (target < 0 || target >= order.length) return order;
+  [order[position], order[target]] = [order[target], order[position]];
+  return order;
+}
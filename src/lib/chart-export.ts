@@ -0,0 +1,300 @@
+// Export rendered charts as images (PNG/SVG) and their data as CSV/JSON.
+// Chart.js charts draw to a canvas, heatmaps and box plots are inline SVG.
+
+import { Chart as ChartJS, ChartConfiguration, Plugin } from "chart.js";
+import { ChartData, getHeatmapMatrix } from "./chart-data";
+import { toFilename } from "./download";
+import { ZipEntry } from "./zip";
+
+export const PNG_SCALES = [1, 2, 3] as const;
+export type PngScale = (typeof PNG_SCALES)[number];
+
+export type ChartFileFormat = "png" | "svg" | "csv" | "json";
+
+// Size used for canvas charts that aren't laid out, e.g. in a hidden tab
+const FALLBACK_WIDTH = 800;
+const FALLBACK_HEIGHT = 400;
+
+// Exports get a white background instead of the page behind the chart
+const WHITE_BACKGROUND: Plugin = {
+  id: "exportBackground",
+  beforeDraw: (chart) => {
+    const { ctx, width, height } = chart;
+    ctx.save();
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  },
+};
+
+type ChartGraphic =
+  { kind: "svg"; element: SVGSVGElement } | { kind: "canvas"; chart: ChartJS };
+
+/**
+ * Find the chart drawn inside a chart card's container
+ */
+function findChartGraphic(container: HTMLElement): ChartGraphic {
+  const svg = container.querySelector<SVGSVGElement>('svg[role="img"]');
+  if (svg) return { kind: "svg", element: svg };
+
+  const canvas = container.querySelector("canvas");
+  const chart = canvas ? ChartJS.getChart(canvas) : undefined;
+  if (chart) return { kind: "canvas", chart };
+
+  throw new Error("The chart hasn't been drawn yet");
+}
+
+/**
+ * Whether the chart in a container is ready to export: its SVG is in place,
+ * or Chart.js has created its chart on the canvas. Exports redraw canvas
+ * charts without animation, so one that is still animating is fine.
+ */
+export function isChartDrawn(container: HTMLElement): boolean {
+  try {
+    findChartGraphic(container);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) =>
+      blob ? resolve(blob) : reject(new Error("Couldn't create the image"))
+    );
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Redraw a Chart.js chart on an offscreen canvas at the given pixel ratio,
+ * so the export doesn't depend on the on-screen size or animation state
+ */
+async function renderCanvasChart(
+  source: ChartJS,
+  scale: number
+): Promise<Blob> {
+  const width = source.width || FALLBACK_WIDTH;
+  const height = source.height || FALLBACK_HEIGHT;
+  const config = source.config as ChartConfiguration;
+
+  const host = document.createElement("div");
+  host.style.cssText = `position:fixed;left:-10000px;top:0;width:${width}px;height:${height}px`;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  host.appendChild(canvas);
+  document.body.appendChild(host);
+
+  const copy = new ChartJS(canvas, {
+    type: config.type,
+    data: {
+      labels: config.data.labels ? [...config.data.labels] : undefined,
+      datasets: config.data.datasets.map((dataset) => ({
+        ...dataset,
+        data: [...dataset.data],
+      })),
+    },
+    options: {
+      ...config.options,
+      responsive: false,
+      animation: false,
+      devicePixelRatio: scale,
+    },
+    plugins: [WHITE_BACKGROUND],
+  });
+
+  try {
+    return await canvasToBlob(canvas);
+  } finally {
+    copy.destroy();
+    host.remove();
+  }
+}
+
+function svgSize(svg: SVGSVGElement) {
+  const { width, height } = svg.viewBox.baseVal;
+  return width && height
+    ? { width, height }
+    : { width: svg.clientWidth, height: svg.clientHeight };
+}
+
+// Standalone SVG document with an explicit size, for saving or rasterizing
+function svgMarkup(svg: SVGSVGElement): string {
+  const { width, height } = svgSize(svg);
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.setAttribute("style", "background:#ffffff");
+  return new XMLSerializer().serializeToString(clone);
+}
+
+async function rasterizeSvg(svg: SVGSVGElement, scale: number): Promise<Blob> {
+  const { width, height } = svgSize(svg);
+  const url = URL.createObjectURL(
+    new Blob([svgMarkup(svg)], { type: "image/svg+xml" })
+  );
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () =>
+        reject(new Error("Couldn't render the chart image"));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is not available in this browser");
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await canvasToBlob(canvas);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * PNG of the chart in a container, at 1x/2x/3x its on-screen size
+ */
+export function exportChartPng(
+  container: HTMLElement,
+  scale: PngScale
+): Promise<Blob> {
+  const graphic = findChartGraphic(container);
+  return graphic.kind === "svg"
+    ? rasterizeSvg(graphic.element, scale)
+    : renderCanvasChart(graphic.chart, scale);
+}
+
+/**
+ * SVG of the chart in a container. Canvas charts have no vector form, so
+ * they're embedded as a 2x image inside the SVG.
+ */
+export async function exportChartSvg(container: HTMLElement): Promise<string> {
+  const graphic = findChartGraphic(container);
+  if (graphic.kind === "svg") return svgMarkup(graphic.element);
+
+  const { chart } = graphic;
+  const width = chart.width || FALLBACK_WIDTH;
+  const height = chart.height || FALLBACK_HEIGHT;
+  const image = await blobToDataUrl(await renderCanvasChart(chart, 2));
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<image href="${image}" width="${width}" height="${height}"/>`,
+    "</svg>",
+  ].join("");
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number" && !Number.isFinite(value)) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(rows: unknown[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+/**
+ * The chart's data as CSV: one row per label and one column per dataset,
+ * with layouts of their own for scatter, box plot and heatmap charts
+ */
+export function chartToCsv(chart: ChartData): string {
+  if (chart.type === "scatter") {
+    return csvRows([
+      ["Dataset", "x", "y"],
+      ...chart.datasets.flatMap((dataset) =>
+        (dataset.data as Array<{ x: number; y: number }>).map((point) => [
+          dataset.label,
+          point.x,
+          point.y,
+        ])
+      ),
+    ]);
+  }
+
+  if (chart.type === "boxplot") {
+    return csvRows([
+      ["Label", "Dataset", "Min", "Q1", "Median", "Q3", "Max", "Outliers"],
+      ...chart.datasets.flatMap((dataset) =>
+        chart.labels.map((label, index) => {
+          const box = dataset.boxes?.[index];
+          return box
+            ? [
+                label,
+                dataset.label,
+                box.min,
+                box.q1,
+                box.median,
+                box.q3,
+                box.max,
+                box.outliers.join(" "),
+              ]
+            : [label, dataset.label, "", "", dataset.data[index], "", "", ""];
+        })
+      ),
+    ]);
+  }
+
+  if (chart.type === "heatmap") {
+    const { xLabels, yLabels, values } = getHeatmapMatrix(chart);
+    return csvRows([
+      ["", ...xLabels],
+      ...yLabels.map((label, row) => [label, ...values[row]]),
+    ]);
+  }
+
+  return csvRows([
+    ["Label", ...chart.datasets.map((dataset) => dataset.label)],
+    ...chart.labels.map((label, index) => [
+      label,
+      ...chart.datasets.map((dataset) => dataset.data[index]),
+    ]),
+  ]);
+}
+
+export function chartToJson(chart: ChartData): string {
+  return JSON.stringify(chart, null, 2);
+}
+
+export function chartFilename(chart: ChartData, format: ChartFileFormat) {
+  return `${toFilename(chart.title, "chart")}.${format}`;
+}
+
+/**
+ * Every export of a chart, as entries for a ZIP archive
+ */
+export async function chartZipEntries(
+  chart: ChartData,
+  container: HTMLElement,
+  scale: PngScale
+): Promise<ZipEntry[]> {
+  const png = await exportChartPng(container, scale);
+  return [
+    {
+      name: chartFilename(chart, "png"),
+      data: new Uint8Array(await png.arrayBuffer()),
+    },
+    {
+      name: chartFilename(chart, "svg"),
+      data: await exportChartSvg(container),
+    },
+    { name: chartFilename(chart, "csv"), data: chartToCsv(chart) },
+    { name: chartFilename(chart, "json"), data: chartToJson(chart) },
+  ];
+}
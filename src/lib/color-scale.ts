@@ -0,0 +1,89 @@
+// Continuous color scales for value-encoded charts such as heatmaps
+
+type Rgb = [number, number, number];
+
+export interface ColorScale {
+  min: number;
+  max: number;
+  /** CSS color for a value in [min, max] */
+  color: (value: number) => string;
+  /** Colors from min to max, for drawing a legend gradient */
+  stops: string[];
+}
+
+// Light to dark blue
+const SEQUENTIAL_STOPS: Rgb[] = [
+  [239, 246, 255],
+  [147, 197, 253],
+  [59, 130, 246],
+  [30, 64, 175],
+];
+
+// Red (negative) through near-white (zero) to blue (positive)
+const DIVERGING_STOPS: Rgb[] = [
+  [185, 28, 28],
+  [248, 113, 113],
+  [248, 250, 252],
+  [96, 165, 250],
+  [29, 78, 216],
+];
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function toCss([r, g, b]: Rgb): string {
+  return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+}
+
+function interpolate(stops: Rgb[], t: number): Rgb {
+  const clamped = Math.min(1, Math.max(0, t));
+  const position = clamped * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const local = position - index;
+  const [from, to] = [stops[index], stops[index + 1]];
+  return [0, 1, 2].map((i) => from[i] + (to[i] - from[i]) * local) as Rgb;
+}
+
+function parseCssColor(color: string): Rgb {
+  if (color.startsWith("#")) return hexToRgb(color);
+  const match = color.match(/\d+(\.\d+)?/g);
+  return match ? (match.slice(0, 3).map(Number) as Rgb) : [255, 255, 255];
+}
+
+/**
+ * Pick a readable text color (dark or white) for a background color
+ */
+export function contrastTextColor(background: string): string {
+  const [r, g, b] = parseCssColor(background);
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.6 ? "#111827" : "#ffffff";
+}
+
+/**
+ * Light-to-dark scale for values that only grow in one direction
+ */
+export function sequentialScale(min: number, max: number): ColorScale {
+  const span = max - min || 1;
+  return {
+    min,
+    max,
+    color: (value) => toCss(interpolate(SEQUENTIAL_STOPS, (value - min) / span)),
+    stops: SEQUENTIAL_STOPS.map(toCss),
+  };
+}
+
+/**
+ * Two-sided scale centered on zero, e.g. for correlations between -1 and 1
+ */
+export function divergingScale(min: number, max: number): ColorScale {
+  const extent = Math.max(Math.abs(min), Math.abs(max)) || 1;
+  return {
+    min: -extent,
+    max: extent,
+    color: (value) =>
+      toCss(interpolate(DIVERGING_STOPS, (value + extent) / (2 * extent))),
+    stops: DIVERGING_STOPS.map(toCss),
+  };
+}
@@ -0,0 +1,149 @@
+// Per-column profiles: how complete a column is, its spread of values and a
+// small histogram. Computed here from the upload preview, or fetched for the
+// whole dataset from the backend's profiling endpoint.
+
+import { columnKind, ColumnKind, isMissingValue } from "./data-grid";
+import { histogramBins, mean, quantile, sortedFinite } from "./statistics";
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  dataType: string;
+  kind: ColumnKind;
+  count: number; // Values present
+  missing: number;
+  distinct: number;
+  // Numeric columns
+  min?: number;
+  max?: number;
+  mean?: number;
+  median?: number;
+  // Date columns, as ISO strings
+  earliest?: string;
+  latest?: string;
+  // Text and boolean columns, most common first
+  topValues?: ValueCount[];
+  // Bin counts across the range, for numeric and date columns
+  histogram?: number[];
+}
+
+export interface DatasetProfile {
+  source: "preview" | "dataset"; // Whether the profile covers every row
+  rows: number;
+  columns: ColumnProfile[];
+}
+
+export const TOP_VALUE_COUNT = 5;
+export const SPARKLINE_BINS = 12;
+
+function isNumericValue(value: unknown): boolean {
+  if (typeof value === "number") return Number.isFinite(value);
+  return (
+    typeof value === "string" && value.trim() !== "" && isFinite(Number(value))
+  );
+}
+
+function sparkline(values: number[], distinct: number): number[] {
+  return histogramBins(values, Math.min(SPARKLINE_BINS, distinct)).map(
+    (bin) => bin.count
+  );
+}
+
+function topValues(values: unknown[]): ValueCount[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => {
+    const key = String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_VALUE_COUNT);
+}
+
+/**
+ * Profile one column from the rows at hand. Text columns whose values are all
+ * numbers are profiled as numeric, as the backend sometimes reports them as
+ * "object".
+ */
+export function profileColumn(
+  column: string,
+  dataType: string,
+  rows: Record<string, unknown>[]
+): ColumnProfile {
+  const present = rows
+    .map((row) => row[column])
+    .filter((value) => !isMissingValue(value));
+  let kind = columnKind(dataType);
+  if (kind === "text" && present.length > 0 && present.every(isNumericValue)) {
+    kind = "number";
+  }
+
+  const profile: ColumnProfile = {
+    column,
+    dataType,
+    kind,
+    count: present.length,
+    missing: rows.length - present.length,
+    distinct: new Set(present.map(String)).size,
+  };
+  if (present.length === 0) return profile;
+
+  if (kind === "number") {
+    const sorted = sortedFinite(present.map(Number));
+    if (sorted.length > 0) {
+      profile.min = sorted[0];
+      profile.max = sorted[sorted.length - 1];
+      profile.mean = mean(sorted);
+      profile.median = quantile(sorted, 0.5);
+      profile.histogram = sparkline(sorted, profile.distinct);
+    }
+  } else if (kind === "date") {
+    const times = sortedFinite(
+      present.map((value) => new Date(String(value)).getTime())
+    );
+    if (times.length > 0) {
+      profile.earliest = new Date(times[0]).toISOString();
+      profile.latest = new Date(times[times.length - 1]).toISOString();
+      profile.histogram = sparkline(times, profile.distinct);
+    }
+  } else {
+    profile.topValues = topValues(present);
+  }
+  return profile;
+}
+
+/**
+ * Profile every column of the upload preview
+ */
+export function profilePreview(
+  columns: string[],
+  dataTypes: Record<string, string>,
+  preview: Record<string, unknown>[]
+): DatasetProfile {
+  return {
+    source: "preview",
+    rows: preview.length,
+    columns: columns.map((column) =>
+      profileColumn(column, dataTypes[column] ?? "", preview)
+    ),
+  };
+}
+
+/**
+ * A question for the assistant about one column, suited to its kind
+ */
+export function columnQuestion(profile: ColumnProfile): string {
+  switch (profile.kind) {
+    case "number":
+      return `Describe the distribution of ${profile.column}: its range, typical values and any outliers`;
+    case "date":
+      return `How are records spread over ${profile.column}? Show any trends over time`;
+    default:
+      return `What are the most common values of ${profile.column}, and how do the other columns differ between them?`;
+  }
+}
@@ -0,0 +1,117 @@
+// A per-dataset pinboard of charts collected from the conversation, laid
+// out on a fixed column grid
+
+import type { ChartData } from "./chart-data";
+
+export const DASHBOARD_COLUMNS = 3;
+export const DASHBOARD_MAX_ROW_SPAN = 4;
+const DEFAULT_COL_SPAN = 1;
+const DEFAULT_ROW_SPAN = 2;
+
+export interface DashboardPin {
+  id: string;
+  chart: ChartData; // Including any edits made before it was pinned
+  title: string;
+  colSpan: number; // Grid columns, 1 to DASHBOARD_COLUMNS
+  rowSpan: number; // Grid rows, 1 to DASHBOARD_MAX_ROW_SPAN
+  pinnedAt: string;
+}
+
+export interface Dashboard {
+  title: string;
+  pins: DashboardPin[];
+}
+
+export function createDashboard(title: string): Dashboard {
+  return { title, pins: [] };
+}
+
+function newPinId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `pin-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Charts are compared by content, since restored sessions hold copies
+function chartKey(chart: ChartData): string {
+  return JSON.stringify({ ...chart, edits: undefined });
+}
+
+export function isChartPinned(dashboard: Dashboard, chart: ChartData): boolean {
+  const key = chartKey(chart);
+  return dashboard.pins.some((pin) => chartKey(pin.chart) === key);
+}
+
+/**
+ * Add a chart to the end of the dashboard, unless it's already pinned
+ */
+export function pinChart(dashboard: Dashboard, chart: ChartData): Dashboard {
+  if (isChartPinned(dashboard, chart)) return dashboard;
+  return {
+    ...dashboard,
+    pins: [
+      ...dashboard.pins,
+      {
+        id: newPinId(),
+        chart,
+        title: chart.edits?.title || chart.title,
+        colSpan: DEFAULT_COL_SPAN,
+        rowSpan: DEFAULT_ROW_SPAN,
+        pinnedAt: new Date().toISOString(),
+      },
+    ],
+  };
+}
+
+export function unpinChart(dashboard: Dashboard, pinId: string): Dashboard {
+  return {
+    ...dashboard,
+    pins: dashboard.pins.filter((pin) => pin.id !== pinId),
+  };
+}
+
+function clamp(value: number, max: number): number {
+  return Math.min(Math.max(1, Math.round(value)), max);
+}
+
+/**
+ * Retitle, resize or replace the chart of a pin. Sizes are kept on the grid.
+ */
+export function updatePin(
+  dashboard: Dashboard,
+  pinId: string,
+  changes: Partial<
+    Pick<DashboardPin, "title" | "chart" | "colSpan" | "rowSpan">
+  >
+): Dashboard {
+  return {
+    ...dashboard,
+    pins: dashboard.pins.map((pin) => {
+      if (pin.id !== pinId) return pin;
+      const updated = { ...pin, ...changes };
+      return {
+        ...updated,
+        colSpan: clamp(updated.colSpan, DASHBOARD_COLUMNS),
+        rowSpan: clamp(updated.rowSpan, DASHBOARD_MAX_ROW_SPAN),
+      };
+    }),
+  };
+}
+
+/**
+ * Move a pin to the position of another, shifting the pins in between
+ */
+export function movePin(
+  dashboard: Dashboard,
+  pinId: string,
+  targetPinId: string
+): Dashboard {
+  const from = dashboard.pins.findIndex((pin) => pin.id === pinId);
+  const to = dashboard.pins.findIndex((pin) => pin.id === targetPinId);
+  if (from === -1 || to === -1 || from === to) return dashboard;
+
+  const pins = [...dashboard.pins];
+  const [moved] = pins.splice(from, 1);
+  pins.splice(to, 0, moved);
+  return { ...dashboard, pins };
+}
@@ -0,0 +1,200 @@
+// Sorting, filtering and formatting for the dataset grid. The backend's rows
+// endpoint takes the same sort and filters, and the grid applies them locally
+// when it can only show the upload preview.
+
+export type ColumnKind = "number" | "date" | "boolean" | "text";
+
+export type FilterOperator =
+  "contains" | "eq" | "neq" | "gt" | "gte" | "lt" | "lte";
+
+export interface ColumnFilter {
+  column: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface ColumnSort {
+  column: string;
+  direction: "asc" | "desc";
+}
+
+export type GridRow = Record<string, unknown>;
+
+/**
+ * Classify a pandas-style dtype such as "int64", "float64", "datetime64[ns]",
+ * "bool" or "object"
+ */
+export function columnKind(dataType: string | undefined): ColumnKind {
+  const type = (dataType ?? "").toLowerCase();
+  if (type.includes("date") || type.includes("time")) return "date";
+  if (type.includes("bool")) return "boolean";
+  if (
+    type.includes("int") ||
+    type.includes("float") ||
+    type.includes("double") ||
+    type.includes("number") ||
+    type.includes("decimal")
+  ) {
+    return "number";
+  }
+  return "text";
+}
+
+const OPERATOR_PREFIXES: Array<[string, FilterOperator]> = [
+  [">=", "gte"],
+  ["<=", "lte"],
+  ["!=", "neq"],
+  [">", "gt"],
+  ["<", "lt"],
+  ["=", "eq"],
+];
+
+/**
+ * Read a filter typed into a column header: ">10", "<= 5", "=Paris", "!=0",
+ * or plain text to match anywhere in the value. Empty input means no filter.
+ */
+export function parseFilterInput(
+  column: string,
+  input: string
+): ColumnFilter | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  for (const [prefix, operator] of OPERATOR_PREFIXES) {
+    if (text.startsWith(prefix)) {
+      const value = text.slice(prefix.length).trim();
+      return value ? { column, operator, value } : null;
+    }
+  }
+  return { column, operator: "contains", value: text };
+}
+
+/**
+ * Whether a cell holds no value: null, undefined, an empty string or NaN
+ */
+export function isMissingValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (typeof value === "number" && Number.isNaN(value))
+  );
+}
+
+function toComparable(value: unknown, kind: ColumnKind): number | string {
+  if (kind === "number") return Number(value);
+  if (kind === "date") return new Date(String(value)).getTime();
+  return String(value).toLowerCase();
+}
+
+function compareValues(a: unknown, b: unknown, kind: ColumnKind): number {
+  const left = toComparable(a, kind);
+  const right = toComparable(b, kind);
+  if (typeof left === "number" && typeof right === "number") {
+    if (Number.isNaN(left)) return Number.isNaN(right) ? 0 : 1;
+    if (Number.isNaN(right)) return -1;
+    return left - right;
+  }
+  return String(left).localeCompare(String(right), undefined, {
+    numeric: true,
+  });
+}
+
+function matchesFilter(
+  row: GridRow,
+  filter: ColumnFilter,
+  kind: ColumnKind
+): boolean {
+  const value = row[filter.column];
+  if (filter.operator === "contains") {
+    return (
+      !isMissingValue(value) &&
+      String(value).toLowerCase().includes(filter.value.toLowerCase())
+    );
+  }
+  if (isMissingValue(value)) return filter.operator === "neq";
+
+  const comparison = compareValues(value, filter.value, kind);
+  switch (filter.operator) {
+    case "eq":
+      return comparison === 0;
+    case "neq":
+      return comparison !== 0;
+    case "gt":
+      return comparison > 0;
+    case "gte":
+      return comparison >= 0;
+    case "lt":
+      return comparison < 0;
+    case "lte":
+      return comparison <= 0;
+  }
+}
+
+/**
+ * Filter and sort rows in the browser. Empty values always sort last.
+ */
+export function queryRows(
+  rows: GridRow[],
+  filters: ColumnFilter[],
+  sort: ColumnSort | null,
+  dataTypes: Record<string, string>
+): GridRow[] {
+  const filtered = rows.filter((row) =>
+    filters.every((filter) =>
+      matchesFilter(row, filter, columnKind(dataTypes[filter.column]))
+    )
+  );
+  if (!sort) return filtered;
+
+  const kind = columnKind(dataTypes[sort.column]);
+  const direction = sort.direction === "asc" ? 1 : -1;
+  return filtered.sort((a, b) => {
+    const left = a[sort.column];
+    const right = b[sort.column];
+    if (isMissingValue(left) || isMissingValue(right)) {
+      return Number(isMissingValue(left)) - Number(isMissingValue(right));
+    }
+    return compareValues(left, right, kind) * direction;
+  });
+}
+
+const DATE_ONLY_PATTERN = /^(\d{4}-\d{2}-\d{2})([T ]00:00(:00(\.0+)?)?)?Z?$/;
+
+const numberFormat = new Intl.NumberFormat(undefined, {
+  maximumFractionDigits: 4,
+});
+
+/**
+ * Display text for a cell. Null means the cell is empty and is shown as such.
+ */
+export function formatCellValue(
+  value: unknown,
+  kind: ColumnKind
+): string | null {
+  if (isMissingValue(value)) return null;
+
+  switch (kind) {
+    case "number": {
+      const number = Number(value);
+      return Number.isFinite(number)
+        ? numberFormat.format(number)
+        : String(value);
+    }
+    case "date": {
+      const date = new Date(String(value));
+      if (Number.isNaN(date.getTime())) return String(value);
+      // Dates without a time of day, including pandas' midnight timestamps
+      const dateOnly = DATE_ONLY_PATTERN.exec(String(value));
+      return dateOnly
+        ? new Date(`${dateOnly[1]}T00:00:00Z`).toLocaleDateString(undefined, {
+            timeZone: "UTC",
+          })
+        : date.toLocaleString();
+    }
+    case "boolean":
+      return String(value) === "true" || value === 1 ? "Yes" : "No";
+    default:
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+}
@@ -0,0 +1,101 @@
+// Local stand-in for a real identity provider, for development and demos: a
+// fixed list of accounts and unsigned tokens that the mock backend can read.
+// None of this is secure - a dev token can be made by anyone - so it is all
+// off unless NEXT_PUBLIC_AUTH_DEV_MODE=true.
+
+import type { AuthUser } from "@/services/api";
+
+interface DevAccount extends AuthUser {
+  password: string;
+}
+
+export const DEV_AUTH_ENABLED = process.env.NEXT_PUBLIC_AUTH_DEV_MODE === "true";
+
+const DEV_TOKEN_PREFIX = "dev.";
+export const DEV_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+// "email:password:Name" entries separated by commas
+const DEFAULT_DEV_USERS =
+  "demo@databot.local:demo:Demo User,analyst@databot.local:analyst:Second Analyst";
+
+function parseDevAccounts(spec: string): DevAccount[] {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim().split(":"))
+    .filter(([email, password]) => email && password)
+    .map(([email, password, name]) => ({
+      id: email.toLowerCase(),
+      email: email.toLowerCase(),
+      name: name || email.split("@")[0],
+      password,
+    }));
+}
+
+/**
+ * The accounts that can sign in with the local credentials provider - none
+ * unless dev auth is turned on
+ */
+export function devAccounts(): DevAccount[] {
+  if (!DEV_AUTH_ENABLED) return [];
+  return parseDevAccounts(
+    process.env.NEXT_PUBLIC_AUTH_DEV_USERS || DEFAULT_DEV_USERS
+  );
+}
+
+/**
+ * Find the dev account with this email and password
+ */
+export function findDevUser(email: string, password: string): AuthUser | null {
+  const account = devAccounts().find(
+    (candidate) =>
+      candidate.email === email.trim().toLowerCase() &&
+      candidate.password === password
+  );
+  if (!account) return null;
+  return { id: account.id, name: account.name, email: account.email };
+}
+
+function encodeBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+}
+
+/**
+ * Make a dev token carrying the user and its expiry time
+ */
+export function createDevToken(user: AuthUser, expiresAt: number): string {
+  return (
+    DEV_TOKEN_PREFIX +
+    encodeBase64Url(JSON.stringify({ ...user, exp: expiresAt }))
+  );
+}
+
+/**
+ * Read the user out of a dev token, or null if it is malformed or expired, or
+ * dev auth is off
+ */
+export function readDevToken(token: string, now = Date.now()): AuthUser | null {
+  if (!DEV_AUTH_ENABLED || !token.startsWith(DEV_TOKEN_PREFIX)) return null;
+  try {
+    const claims = JSON.parse(
+      decodeBase64Url(token.slice(DEV_TOKEN_PREFIX.length))
+    );
+    if (typeof claims?.id !== "string" || !(claims.exp > now)) return null;
+    return {
+      id: claims.id,
+      name: String(claims.name ?? claims.id),
+      email: String(claims.email ?? ""),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Save content as a file through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Save a string as a file with the given MIME type
+ */
+export function downloadText(
+  content: string,
+  filename: string,
+  type = "text/plain"
+) {
+  downloadBlob(
+    new Blob([content], { type: `${type};charset=utf-8` }),
+    filename
+  );
+}
+
+/**
+ * Turn a title into a safe filename stem, e.g. "Sales by Region" -> "sales-by-region"
+ */
+export function toFilename(title: string, fallback = "download") {
+  const stem = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return stem || fallback;
+}
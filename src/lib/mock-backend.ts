@@ -0,0 +1,675 @@
+// In-memory stand-in for the FastAPI backend, served by the route handlers
+// under /api/mock when NEXT_PUBLIC_USE_MOCK_API is "true". Answers are built
+// from the uploaded data, with a chart-data block for every chart type.
+//
+// Add a tag to a chat message or an uploaded file's name to rehearse the
+// slow and failing cases: #slow, #timeout, #error, #ratelimit, #invalid,
+// #unavailable or #unauthorized.
+//
+// Requests carrying a dev token only see the files uploaded with that user's
+// token; requests without one share the files of an anonymous user.
+
+import type {
+  ChatResponse,
+  ConversationResponse,
+  ProfileResponse,
+  RowsResponse,
+  UploadResponse,
+} from "@/services/api";
+import { CHART_TYPES, ChartType } from "./chart-data";
+import { profilePreview } from "./column-profile";
+import { readDevToken } from "./dev-auth";
+import {
+  ColumnFilter,
+  columnKind,
+  ColumnSort,
+  isMissingValue,
+  queryRows,
+} from "./data-grid";
+import type { MockDataset, MockRow } from "./mock-datasets";
+import { mean, quantile, sortedFinite } from "./statistics";
+
+export const MOCK_API_ENABLED = process.env.NEXT_PUBLIC_USE_MOCK_API === "true";
+
+// Delay added to every response, so loading states can be seen
+const LATENCY_MS = Number(process.env.MOCK_API_LATENCY_MS ?? 400);
+const SLOW_LATENCY_MS = 8_000;
+// Longer than the client's default request timeout
+const TIMEOUT_LATENCY_MS = 130_000;
+const PREVIEW_ROWS = 10;
+const MAX_PAGE_SIZE = 1000;
+const MAX_CATEGORIES = 8;
+const MAX_SCATTER_POINTS = 200;
+const MAX_HEATMAP_COLUMNS = 6;
+
+export type MockScenario =
+  | "slow"
+  | "timeout"
+  | "error"
+  | "ratelimit"
+  | "invalid"
+  | "unavailable"
+  | "unauthorized";
+
+const SCENARIOS: MockScenario[] = [
+  "slow",
+  "timeout",
+  "error",
+  "ratelimit",
+  "invalid",
+  "unavailable",
+  "unauthorized",
+];
+
+const ANONYMOUS_OWNER = "anonymous";
+
+interface MockFile {
+  fileId: string;
+  owner: string; // Id of the user who uploaded it
+  filename: string;
+  dataset: MockDataset;
+  messages: ConversationResponse["messages"];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Kept on globalThis so every route handler, and dev server reloads, see the
+// same files
+const globalStore = globalThis as typeof globalThis & {
+  mockBackendFiles?: Map<string, MockFile>;
+};
+const files = (globalStore.mockBackendFiles ??= new Map<string, MockFile>());
+
+/**
+ * A FastAPI-style error response
+ */
+export function mockError(
+  status: number,
+  detail: unknown,
+  headers: Record<string, string> = {}
+): Response {
+  return Response.json(
+    { detail },
+    {
+      status,
+      headers: { "x-request-id": crypto.randomUUID(), ...headers },
+    }
+  );
+}
+
+/**
+ * The 404 every mock route answers with while the mock backend is switched off
+ */
+export function mockDisabledResponse(): Response | null {
+  return MOCK_API_ENABLED ? null : mockError(404, "Not Found");
+}
+
+/**
+ * Find a scenario tag such as #slow in a message or filename
+ */
+export function readScenario(text: string): MockScenario | null {
+  const lowerText = text.toLowerCase();
+  return (
+    SCENARIOS.find((scenario) => lowerText.includes(`#${scenario}`)) ?? null
+  );
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Wait as long as the scenario asks, then return the error response it calls
+ * for, or null to carry on normally
+ */
+export async function runScenario(
+  scenario: MockScenario | null,
+  signal?: AbortSignal
+): Promise<Response | null> {
+  const latency =
+    scenario === "slow"
+      ? SLOW_LATENCY_MS
+      : scenario === "timeout"
+        ? TIMEOUT_LATENCY_MS
+        : LATENCY_MS;
+  await wait(latency, signal);
+
+  switch (scenario) {
+    case "error":
+      return mockError(500, "Mock backend error: the analysis failed");
+    case "ratelimit":
+      return mockError(429, "Too many requests, slow down", {
+        "retry-after": "2",
+      });
+    case "invalid":
+      return mockError(422, [
+        {
+          loc: ["body", "message"],
+          msg: "Mock validation error for this request",
+          type: "value_error",
+        },
+      ]);
+    case "unavailable":
+      return mockError(503, "The mock backend is temporarily unavailable", {
+        "retry-after": "1",
+      });
+    case "unauthorized":
+      return notAuthenticated();
+    default:
+      return null;
+  }
+}
+
+function notAuthenticated(): Response {
+  return mockError(401, "Not authenticated", {
+    "www-authenticate": "Bearer",
+  });
+}
+
+/**
+ * The user a request is made for: the one in its dev token, or the anonymous
+ * user without a token. Answers 401 for a malformed or expired token.
+ */
+export function requestOwner(request: Request): string | Response {
+  const authorization = request.headers.get("authorization");
+  if (!authorization) return ANONYMOUS_OWNER;
+
+  const token = authorization.replace(/^Bearer\s+/i, "");
+  return readDevToken(token)?.id ?? notAuthenticated();
+}
+
+/**
+ * Store an uploaded dataset and describe it the way the upload endpoint does
+ */
+export function createMockFile(
+  filename: string,
+  dataset: MockDataset,
+  owner: string
+): UploadResponse {
+  const now = new Date().toISOString();
+  const fileId = crypto.randomUUID();
+  files.set(fileId, {
+    fileId,
+    owner,
+    filename,
+    dataset,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  });
+  return {
+    file_id: fileId,
+    filename,
+    summary: {
+      rows: dataset.rows.length,
+      columns: dataset.columns,
+      data_types: dataset.dataTypes,
+    },
+    data_preview: dataset.rows.slice(0, PREVIEW_ROWS),
+  };
+}
+
+/**
+ * Find a file the owner uploaded - other users' files are treated as missing
+ */
+export function getMockFile(
+  fileId: string,
+  owner: string
+): MockFile | undefined {
+  const file = files.get(fileId);
+  return file?.owner === owner ? file : undefined;
+}
+
+export function fileNotFound(fileId: string): Response {
+  return mockError(404, `File ${fileId} not found`);
+}
+
+export function mockConversation(file: MockFile): ConversationResponse {
+  return {
+    file_id: file.fileId,
+    messages: file.messages,
+    created_at: file.createdAt,
+    updated_at: file.updatedAt,
+  };
+}
+
+/**
+ * A page of rows, sorted and filtered like the real rows endpoint
+ */
+export function mockRows(
+  file: MockFile,
+  params: URLSearchParams
+): RowsResponse | Response {
+  const offset = Math.max(0, Number(params.get("offset") ?? 0) || 0);
+  const limit = Number(params.get("limit") ?? 100);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return mockError(422, [
+      {
+        loc: ["query", "limit"],
+        msg: `Input should be between 1 and ${MAX_PAGE_SIZE}`,
+        type: "less_than_equal",
+      },
+    ]);
+  }
+
+  let filters: ColumnFilter[] = [];
+  try {
+    filters = JSON.parse(params.get("filters") ?? "[]");
+  } catch {
+    return mockError(400, "filters must be a JSON array");
+  }
+  const sortBy = params.get("sort_by");
+  const sort: ColumnSort | null = sortBy
+    ? {
+        column: sortBy,
+        direction: params.get("sort_dir") === "desc" ? "desc" : "asc",
+      }
+    : null;
+
+  const { rows, dataTypes } = file.dataset;
+  const matching = queryRows([...rows], filters, sort, dataTypes);
+  return {
+    file_id: file.fileId,
+    total: matching.length,
+    offset,
+    limit,
+    rows: matching.slice(offset, offset + limit),
+  };
+}
+
+export function mockProfile(file: MockFile): ProfileResponse {
+  const { columns, dataTypes, rows } = file.dataset;
+  return {
+    file_id: file.fileId,
+    rows: rows.length,
+    columns: profilePreview(columns, dataTypes, rows).columns,
+  };
+}
+
+// Keywords in a question that ask for each kind of chart, most specific first
+const CHART_KEYWORDS: Array<[ChartType, string[]]> = [
+  ["heatmap", ["heatmap", "correlation", "matrix"]],
+  ["boxplot", ["box", "spread", "outlier", "anomal"]],
+  ["histogram", ["histogram", "distribution"]],
+  ["scatter", ["scatter", "relationship", " vs ", "versus"]],
+  ["doughnut", ["doughnut", "donut"]],
+  ["polarArea", ["polar"]],
+  ["pie", ["pie", "share", "proportion"]],
+  ["line", ["line", "trend", "over time", "monthly"]],
+  ["bar", ["bar", "compare", "top", " by ", "across"]],
+];
+
+function requestedChartTypes(message: string): ChartType[] {
+  const lowerMessage = ` ${message.toLowerCase()} `;
+  if (/\ball charts\b|\bevery chart\b|#charts/.test(lowerMessage)) {
+    return CHART_TYPES;
+  }
+  const match = CHART_KEYWORDS.find(([, keywords]) =>
+    keywords.some((keyword) => lowerMessage.includes(keyword))
+  );
+  return match ? [match[0]] : [];
+}
+
+interface DatasetColumns {
+  numeric: string[];
+  categories: string[];
+  dates: string[];
+}
+
+function classifyColumns(dataset: MockDataset): DatasetColumns {
+  const groups: DatasetColumns = { numeric: [], categories: [], dates: [] };
+  dataset.columns.forEach((column) => {
+    const kind = columnKind(dataset.dataTypes[column]);
+    if (kind === "number") groups.numeric.push(column);
+    if (kind === "date") groups.dates.push(column);
+    if (kind === "text" || kind === "boolean") groups.categories.push(column);
+  });
+  return groups;
+}
+
+// Prefer columns the question mentions by name
+function preferMentioned(columns: string[], message: string): string[] {
+  const lowerMessage = message.toLowerCase();
+  const mentioned = columns.filter((column) =>
+    lowerMessage.includes(column.toLowerCase())
+  );
+  return [
+    ...mentioned,
+    ...columns.filter((column) => !mentioned.includes(column)),
+  ];
+}
+
+function numbersOf(rows: MockRow[], column: string): number[] {
+  return rows
+    .map((row) => row[column])
+    .filter((value) => !isMissingValue(value))
+    .map(Number)
+    .filter(Number.isFinite);
+}
+
+// Rows where both columns hold a number, as [a, b] pairs
+function pairsOf(
+  rows: MockRow[],
+  a: string,
+  b: string
+): Array<[number, number]> {
+  return rows
+    .filter((row) => !isMissingValue(row[a]) && !isMissingValue(row[b]))
+    .map((row): [number, number] => [Number(row[a]), Number(row[b])])
+    .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y));
+}
+
+function groupRows(rows: MockRow[], column: string): Map<string, MockRow[]> {
+  const groups = new Map<string, MockRow[]>();
+  rows.forEach((row) => {
+    const key = isMissingValue(row[column]) ? "(blank)" : String(row[column]);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+  return groups;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  const denominator = Math.sqrt(varianceX * varianceY);
+  return denominator === 0 ? 0 : covariance / denominator;
+}
+
+type ChartBlock = Record<string, unknown>;
+
+/**
+ * A chart-data block of the given type built from the dataset, or null when
+ * the dataset lacks the columns that chart needs
+ */
+function buildChart(
+  type: ChartType,
+  dataset: MockDataset,
+  columns: DatasetColumns
+): ChartBlock | null {
+  const { rows } = dataset;
+  const [measure, secondMeasure] = columns.numeric;
+  const [category] = columns.categories;
+  const [date] = columns.dates;
+
+  switch (type) {
+    case "bar": {
+      if (!measure || !category) return null;
+      const totals = [...groupRows(rows, category)]
+        .map(([label, group]) => ({
+          label,
+          total: sum(numbersOf(group, measure)),
+        }))
+        .sort((a, b) => b.total - a.total)
+        .slice(0, MAX_CATEGORIES);
+      return {
+        type,
+        title: `Total ${measure} by ${category}`,
+        description: `Top ${totals.length} ${category} values by total ${measure}`,
+        labels: totals.map((entry) => entry.label),
+        datasets: [
+          { label: measure, data: totals.map((entry) => round(entry.total)) },
+        ],
+        xAxisTitle: category,
+        yAxisTitle: measure,
+      };
+    }
+    case "line": {
+      if (!measure) return null;
+      if (date) {
+        const months = [...groupRows(rows, date)].reduce(
+          (byMonth, [value, group]) => {
+            const month = String(value).slice(0, 7);
+            byMonth.set(month, [...(byMonth.get(month) ?? []), ...group]);
+            return byMonth;
+          },
+          new Map<string, MockRow[]>()
+        );
+        const labels = [...months.keys()]
+          .filter((month) => month !== "(blank)")
+          .sort();
+        return {
+          type,
+          title: `${measure} per month`,
+          description: `Monthly total of ${measure} by ${date}`,
+          labels,
+          datasets: [
+            {
+              label: measure,
+              data: labels.map((month) =>
+                round(sum(numbersOf(months.get(month) ?? [], measure)))
+              ),
+            },
+          ],
+          xAxisTitle: "Month",
+          yAxisTitle: measure,
+        };
+      }
+      const values = numbersOf(rows.slice(0, 30), measure);
+      return {
+        type,
+        title: `${measure} across the first rows`,
+        description: `${measure} in row order`,
+        labels: values.map((_, index) => `Row ${index + 1}`),
+        datasets: [{ label: measure, data: values }],
+      };
+    }
+    case "pie":
+    case "doughnut":
+    case "polarArea": {
+      if (!category) return null;
+      const counts = [...groupRows(rows, category)]
+        .map(([label, group]) => ({ label, count: group.length }))
+        .sort((a, b) => b.count - a.count);
+      const shown = counts.slice(0, MAX_CATEGORIES - 1);
+      const other = sum(
+        counts.slice(MAX_CATEGORIES - 1).map((entry) => entry.count)
+      );
+      if (other > 0) shown.push({ label: "Other", count: other });
+      return {
+        type,
+        title: `Rows by ${category}`,
+        description: `Share of rows for each ${category}`,
+        labels: shown.map((entry) => entry.label),
+        datasets: [{ label: "Rows", data: shown.map((entry) => entry.count) }],
+      };
+    }
+    case "scatter": {
+      if (!measure || !secondMeasure) return null;
+      const points = pairsOf(rows, measure, secondMeasure)
+        .slice(0, MAX_SCATTER_POINTS)
+        .map(([x, y]) => ({ x, y }));
+      return {
+        type,
+        title: `${secondMeasure} against ${measure}`,
+        description: `One point per row, ${points.length} rows`,
+        labels: [],
+        datasets: [{ label: `${measure} vs ${secondMeasure}`, data: points }],
+        xAxisTitle: measure,
+        yAxisTitle: secondMeasure,
+      };
+    }
+    case "heatmap": {
+      const measures = columns.numeric.slice(0, MAX_HEATMAP_COLUMNS);
+      if (measures.length < 2) return null;
+      // Pairwise correlation over the rows where both values are present
+      const values = measures.map((a) =>
+        measures.map((b) => {
+          const pairs = pairsOf(rows, a, b);
+          return round(
+            correlation(
+              pairs.map(([x]) => x),
+              pairs.map(([, y]) => y)
+            )
+          );
+        })
+      );
+      return {
+        type,
+        title: "Correlation between numeric columns",
+        description: "Pearson correlation, from -1 to 1",
+        matrix: { xLabels: measures, yLabels: measures, values },
+        colorScale: "diverging",
+        showValues: true,
+      };
+    }
+    case "histogram": {
+      if (!measure) return null;
+      return {
+        type,
+        title: `Distribution of ${measure}`,
+        description: `${measure} across ${rows.length} rows`,
+        values: numbersOf(rows, measure),
+        binning: "freedman-diaconis",
+        showDensity: true,
+        xAxisTitle: measure,
+        yAxisTitle: "Rows",
+      };
+    }
+    case "boxplot": {
+      if (!measure || !category) return null;
+      const groups = [...groupRows(rows, category)].slice(0, MAX_CATEGORIES);
+      return {
+        type,
+        title: `Spread of ${measure} by ${category}`,
+        description:
+          "Boxes show the quartiles; points beyond the whiskers are outliers",
+        labels: groups.map(([label]) => label),
+        datasets: [
+          {
+            label: measure,
+            data: groups.map(([, group]) => numbersOf(group, measure)),
+          },
+        ],
+        yAxisTitle: measure,
+      };
+    }
+  }
+}
+
+function summaryTable(dataset: MockDataset, columns: DatasetColumns): string {
+  const lines = [
+    "| Column | Mean | Median | Min | Max | Missing |",
+    "| --- | --- | --- | --- | --- | --- |",
+  ];
+  columns.numeric.forEach((column) => {
+    const sorted = sortedFinite(numbersOf(dataset.rows, column));
+    const missing = dataset.rows.length - sorted.length;
+    lines.push(
+      `| ${column} | ${round(mean(sorted))} | ${round(quantile(sorted, 0.5))} | ${sorted[0] ?? "-"} | ${sorted[sorted.length - 1] ?? "-"} | ${missing} |`
+    );
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Build the assistant's answer to a question about a file and record the
+ * exchange in its conversation
+ */
+export function mockChatResponse(
+  file: MockFile,
+  message: string
+): ChatResponse {
+  const { dataset } = file;
+  const columns = classifyColumns(dataset);
+  columns.numeric = preferMentioned(columns.numeric, message);
+  columns.categories = preferMentioned(columns.categories, message);
+
+  const sections = [
+    `## Analysis of ${file.filename}`,
+    "",
+    `_This answer comes from the mock backend, built from the ${dataset.rows.length.toLocaleString()} rows of your data._`,
+    "",
+  ];
+
+  const [measure] = columns.numeric;
+  const [category] = columns.categories;
+  if (measure) {
+    const sorted = sortedFinite(numbersOf(dataset.rows, measure));
+    sections.push(
+      "**Key findings**",
+      "",
+      `- **${measure}** averages ${round(mean(sorted)).toLocaleString()}, ranging from ${sorted[0]?.toLocaleString()} to ${sorted[sorted.length - 1]?.toLocaleString()}.`
+    );
+    if (category) {
+      const [top] = [...groupRows(dataset.rows, category)]
+        .map(([label, group]) => ({
+          label,
+          total: sum(numbersOf(group, measure)),
+        }))
+        .sort((a, b) => b.total - a.total);
+      sections.push(
+        `- **${top.label}** leads ${category} with a total ${measure} of ${round(top.total).toLocaleString()}.`
+      );
+    }
+    sections.push("");
+  }
+
+  const lowerMessage = message.toLowerCase();
+  if (
+    (lowerMessage.includes("summary") || lowerMessage.includes("statistic")) &&
+    columns.numeric.length > 0
+  ) {
+    sections.push(
+      "**Summary statistics**",
+      "",
+      summaryTable(dataset, columns),
+      ""
+    );
+  }
+
+  const chartTypes = requestedChartTypes(message);
+  const types =
+    chartTypes.length > 0 || !measure ? chartTypes : (["bar"] as ChartType[]);
+  types.forEach((type) => {
+    const chart = buildChart(type, dataset, columns);
+    if (chart) {
+      sections.push("```chart-data", JSON.stringify(chart, null, 2), "```", "");
+    } else {
+      sections.push(
+        `_A ${type} chart needs columns this dataset doesn't have._`,
+        ""
+      );
+    }
+  });
+
+  const analysis = sections.join("\n").trim();
+  const now = new Date().toISOString();
+  file.messages.push(
+    { role: "user", content: message, timestamp: now },
+    { role: "assistant", content: analysis, timestamp: now }
+  );
+  file.updatedAt = now;
+
+  return {
+    file_id: file.fileId,
+    filename: file.filename,
+    analysis,
+    conversation_length: file.messages.length,
+  };
+}
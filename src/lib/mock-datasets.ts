@@ -0,0 +1,199 @@
+// Datasets for the mock backend: uploaded CSV files are parsed for real, and
+// anything else (Excel files included) is answered with a generated sample of
+// restaurant delivery orders.
+
+export type MockRow = Record<string, unknown>;
+
+export interface MockDataset {
+  columns: string[];
+  dataTypes: Record<string, string>;
+  rows: MockRow[];
+}
+
+const SAMPLE_ROW_COUNT = 240;
+const HUBS = ["Downtown", "Riverside", "Airport", "University", "Harbour"];
+const DISHES = [
+  "Margherita Pizza",
+  "Chicken Biryani",
+  "Caesar Salad",
+  "Beef Burger",
+  "Pad Thai",
+  "Veggie Wrap",
+];
+const CUSTOMERS = [
+  "Acme Corp",
+  "Globex",
+  "Initech",
+  "Umbrella",
+  "Stark Industries",
+  "Wayne Enterprises",
+  "Hooli",
+  "Vandelay",
+];
+
+// Small seeded generator so the sample is the same on every run
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * A year of generated delivery orders with a few gaps and outliers, so every
+ * chart type and the profiling have something to show. Each sheet name gets
+ * its own variation of the numbers.
+ */
+export function sampleDataset(sheetName = ""): MockDataset {
+  const seed = Array.from(sheetName).reduce(
+    (hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) | 0,
+    42
+  );
+  const random = seededRandom(seed);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const start = Date.UTC(2024, 0, 1);
+
+  const rows = Array.from({ length: SAMPLE_ROW_COUNT }, (_, index) => {
+    const hub = pick(HUBS);
+    const hubFactor = 1 + HUBS.indexOf(hub) * 0.15;
+    const seasonal =
+      1 + 0.3 * Math.sin((index / SAMPLE_ROW_COUNT) * Math.PI * 2);
+    const delivered = Math.round((20 + random() * 40) * hubFactor * seasonal);
+    const outlier = random() < 0.02 ? 6 : 1;
+    return {
+      order_date: new Date(start + index * 1.5 * 86_400_000)
+        .toISOString()
+        .slice(0, 10),
+      hub,
+      customer_name: pick(CUSTOMERS),
+      dish: pick(DISHES),
+      delivered_orders: delivered,
+      rejected_orders: Math.round(random() * 6 * (hub === "Airport" ? 2 : 1)),
+      total_amount: round(delivered * (12 + random() * 8) * outlier),
+      discount: random() < 0.1 ? null : round(random() * 15),
+      commission: round(delivered * (1.5 + random())),
+    };
+  });
+
+  return {
+    columns: Object.keys(rows[0]),
+    dataTypes: {
+      order_date: "datetime64[ns]",
+      hub: "object",
+      customer_name: "object",
+      dish: "object",
+      delivered_orders: "int64",
+      rejected_orders: "int64",
+      total_amount: "float64",
+      discount: "float64",
+      commission: "float64",
+    },
+    rows,
+  };
+}
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields with commas,
+ * escaped quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?Z?)?$/;
+
+// The pandas dtype read_csv would most likely give a column
+function inferDataType(values: string[]): string {
+  const present = values.filter((value) => value.trim() !== "");
+  if (present.length === 0) return "object";
+  if (present.every((value) => /^-?\d+$/.test(value.trim()))) {
+    // pandas turns integer columns with gaps into floats
+    return present.length === values.length ? "int64" : "float64";
+  }
+  if (present.every((value) => isFinite(Number(value)))) {
+    return "float64";
+  }
+  if (present.every((value) => /^(true|false)$/i.test(value.trim()))) {
+    return "bool";
+  }
+  if (present.every((value) => DATE_PATTERN.test(value.trim()))) {
+    return "datetime64[ns]";
+  }
+  return "object";
+}
+
+function convertValue(value: string, dataType: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+  if (dataType === "int64" || dataType === "float64") return Number(trimmed);
+  if (dataType === "bool") return trimmed.toLowerCase() === "true";
+  return value;
+}
+
+/**
+ * Read an uploaded CSV file, using its first row as the column names
+ */
+export function datasetFromCsv(text: string): MockDataset {
+  const [header = [], ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const columns = header.map(
+    (name, index) => name.trim() || `Unnamed: ${index}`
+  );
+  const dataTypes = Object.fromEntries(
+    columns.map((column, index) => [
+      column,
+      inferDataType(records.map((record) => record[index] ?? "")),
+    ])
+  );
+  const rows = records.map((record) =>
+    Object.fromEntries(
+      columns.map((column, index) => [
+        column,
+        convertValue(record[index] ?? "", dataTypes[column]),
+      ])
+    )
+  );
+  return { columns, dataTypes, rows };
+}
@@ -0,0 +1,277 @@
+// Analysis reports assembled from a session: the dataset summary, the
+// questions and answers, and chart images. Built as Markdown (zipped with its
+// images) or as a standalone HTML page that also serves as the print layout.
+
+import { toFilename } from "./download";
+import { ZipEntry } from "./zip";
+
+export interface ReportChart {
+  title: string;
+  description: string;
+  png: Uint8Array | null; // Null when the chart couldn't be drawn
+}
+
+export interface ReportEntry {
+  role: "user" | "assistant";
+  content: string; // Markdown, with chart-data blocks already removed
+  timestamp: string;
+  charts: ReportChart[];
+}
+
+export interface ReportDataset {
+  filename: string;
+  rows: number;
+  columns: string[];
+  dataTypes: Record<string, string>;
+  preview: Record<string, unknown>[]; // Empty to leave the preview out
+}
+
+export interface ReportInput {
+  title: string;
+  dataset: ReportDataset;
+  entries: ReportEntry[];
+  generatedAt: Date;
+}
+
+const PREVIEW_ROWS = 5;
+// How long a print frame is kept when the browser never says printing ended
+const PRINT_FRAME_CLEANUP_MS = 60_000;
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  const escape = (cell: string) =>
+    cell.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  return [
+    `| ${header.map(escape).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escape).join(" | ")} |`),
+  ].join("\n");
+}
+
+function previewTable(dataset: ReportDataset): [string[], string[][]] {
+  return [
+    dataset.columns,
+    dataset.preview
+      .slice(0, PREVIEW_ROWS)
+      .map((row) => dataset.columns.map((column) => formatCell(row[column]))),
+  ];
+}
+
+function chartImageName(entryIndex: number, chartIndex: number, title: string) {
+  return `images/${entryIndex + 1}-${chartIndex + 1}-${toFilename(title, "chart")}.png`;
+}
+
+/**
+ * The report as Markdown, plus the chart images it links to under images/
+ */
+export function buildMarkdownReport(input: ReportInput): ZipEntry[] {
+  const { dataset } = input;
+  const images: ZipEntry[] = [];
+  const lines = [
+    `# ${input.title}`,
+    "",
+    `_Generated ${input.generatedAt.toLocaleString()}_`,
+    "",
+    "## Dataset",
+    "",
+    `- **File:** ${dataset.filename}`,
+    `- **Rows:** ${dataset.rows.toLocaleString()}`,
+    `- **Columns:** ${dataset.columns.length}`,
+    "",
+    markdownTable(
+      ["Column", "Type"],
+      dataset.columns.map((column) => [column, dataset.dataTypes[column] ?? ""])
+    ),
+    "",
+  ];
+
+  if (dataset.preview.length > 0) {
+    lines.push("### Preview", "", markdownTable(...previewTable(dataset)), "");
+  }
+
+  lines.push("## Analysis", "");
+  input.entries.forEach((entry, entryIndex) => {
+    if (entry.role === "user") {
+      lines.push(
+        "### Question",
+        "",
+        ...entry.content.split("\n").map((line) => `> ${line}`),
+        ""
+      );
+      return;
+    }
+
+    lines.push("### Answer", "", entry.content.trim(), "");
+    entry.charts.forEach((chart, chartIndex) => {
+      if (chart.png) {
+        const name = chartImageName(entryIndex, chartIndex, chart.title);
+        images.push({ name, data: chart.png });
+        lines.push(`![${chart.title}](${name})`, "");
+      } else {
+        lines.push(`**${chart.title}** _(chart could not be drawn)_`, "");
+      }
+      if (chart.description) lines.push(`_${chart.description}_`, "");
+    });
+  });
+
+  return [{ name: "report.md", data: lines.join("\n") }, ...images];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function pngDataUrl(png: Uint8Array): string {
+  let binary = "";
+  // Convert in chunks to stay under the argument limit of fromCharCode
+  for (let i = 0; i < png.length; i += 0x8000) {
+    binary += String.fromCharCode(...png.subarray(i, i + 0x8000));
+  }
+  return `data:image/png;base64,${btoa(binary)}`;
+}
+
+function htmlTable(header: string[], rows: string[][]): string {
+  return [
+    "<table><thead><tr>",
+    ...header.map((cell) => `<th>${escapeHtml(cell)}</th>`),
+    "</tr></thead><tbody>",
+    ...rows.map(
+      (row) =>
+        `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`
+    ),
+    "</tbody></table>",
+  ].join("");
+}
+
+const REPORT_STYLES = `
+  body { font-family: ui-sans-serif, system-ui, sans-serif; color: #111827; max-width: 860px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #6b7280; margin-top: 0; }
+  table { border-collapse: collapse; margin: 0.75rem 0; font-size: 0.85rem; width: 100%; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  .preview { overflow-x: auto; }
+  .entry { margin: 1.25rem 0; break-inside: avoid-page; }
+  .question { background: #eff6ff; border-left: 4px solid #3b82f6; padding: 0.5rem 0.75rem; border-radius: 4px; }
+  .label { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; color: #6b7280; margin-bottom: 0.25rem; }
+  figure { margin: 1rem 0; break-inside: avoid; }
+  figure img { max-width: 100%; border: 1px solid #e5e7eb; border-radius: 4px; }
+  figcaption { font-size: 0.85rem; color: #4b5563; }
+  pre { background: #f3f4f6; padding: 0.5rem; overflow-x: auto; }
+  @page { margin: 16mm; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .preview { overflow: visible; }
+    h2 { break-after: avoid; }
+  }
+`;
+
+/**
+ * The report as a standalone HTML page with embedded images. Markdown in the
+ * answers is converted with the given renderer.
+ */
+export function buildHtmlReport(
+  input: ReportInput,
+  renderMarkdown: (markdown: string) => string
+): string {
+  const { dataset } = input;
+  const body = [
+    `<h1>${escapeHtml(input.title)}</h1>`,
+    `<p class="meta">Generated ${escapeHtml(input.generatedAt.toLocaleString())}</p>`,
+    "<h2>Dataset</h2>",
+    `<p><strong>File:</strong> ${escapeHtml(dataset.filename)} &middot; <strong>Rows:</strong> ${dataset.rows.toLocaleString()} &middot; <strong>Columns:</strong> ${dataset.columns.length}</p>`,
+    htmlTable(
+      ["Column", "Type"],
+      dataset.columns.map((column) => [column, dataset.dataTypes[column] ?? ""])
+    ),
+  ];
+
+  if (dataset.preview.length > 0) {
+    body.push(
+      "<h3>Preview</h3>",
+      `<div class="preview">${htmlTable(...previewTable(dataset))}</div>`
+    );
+  }
+
+  body.push("<h2>Analysis</h2>");
+  input.entries.forEach((entry) => {
+    if (entry.role === "user") {
+      body.push(
+        `<div class="entry question"><div class="label">Question</div>${escapeHtml(entry.content)}</div>`
+      );
+      return;
+    }
+
+    const figures = entry.charts.map((chart) => {
+      const caption = `<figcaption><strong>${escapeHtml(chart.title)}</strong>${
+        chart.description ? ` &ndash; ${escapeHtml(chart.description)}` : ""
+      }</figcaption>`;
+      return chart.png
+        ? `<figure><img src="${pngDataUrl(chart.png)}" alt="${escapeHtml(chart.title)}">${caption}</figure>`
+        : `<figure>${caption}<p><em>Chart could not be drawn</em></p></figure>`;
+    });
+    body.push(
+      `<div class="entry"><div class="label">Answer</div>${renderMarkdown(entry.content)}${figures.join("")}</div>`
+    );
+  });
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(input.title)}</title>`,
+    `<style>${REPORT_STYLES}</style>`,
+    "</head>",
+    `<body>${body.join("\n")}</body>`,
+    "</html>",
+  ].join("\n");
+}
+
+/**
+ * Open the browser's print dialog for an HTML page, so it can be saved as a
+ * PDF. Uses a hidden frame rather than a popup window. Resolves once the
+ * dialog is closed - or, where print() doesn't wait for that and no
+ * afterprint event comes, once print() returns.
+ */
+export function printHtml(html: string): Promise<void> {
+  return new Promise((resolve) => {
+    const frame = document.createElement("iframe");
+    frame.style.cssText =
+      "position:fixed;right:0;bottom:0;width:0;height:0;border:0";
+    frame.srcdoc = html;
+
+    let cleanupTimer: ReturnType<typeof setTimeout> | undefined;
+    const finish = () => {
+      clearTimeout(cleanupTimer);
+      frame.remove();
+      resolve();
+    };
+
+    frame.onload = () => {
+      const printWindow = frame.contentWindow;
+      if (!printWindow) {
+        finish();
+        return;
+      }
+      printWindow.addEventListener("afterprint", finish, { once: true });
+      printWindow.focus();
+      printWindow.print();
+      // Browsers that print in the background still need the frame for a
+      // while, so it is only removed later if afterprint never fires
+      if (frame.isConnected) {
+        cleanupTimer = setTimeout(finish, PRINT_FRAME_CLEANUP_MS);
+      }
+      resolve();
+    };
+    document.body.appendChild(frame);
+  });
+}
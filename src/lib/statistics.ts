@@ -0,0 +1,188 @@
+// Descriptive statistics used to build charts from raw values on the client
+
+export interface BoxSummary {
+  min: number; // Lower whisker
+  q1: number;
+  median: number;
+  q3: number;
+  max: number; // Upper whisker
+  mean?: number;
+  outliers: number[];
+  count?: number;
+}
+
+/**
+ * Sort numbers ascending, dropping anything that isn't finite
+ */
+export function sortedFinite(values: number[]): number[] {
+  return values.filter((value) => Number.isFinite(value)).sort((a, b) => a - b);
+}
+
+/**
+ * Quantile of sorted values with linear interpolation between closest ranks
+ */
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Five-number summary with Tukey's fences: whiskers reach the most extreme
+ * values within 1.5 × IQR of the quartiles, anything beyond is an outlier
+ */
+export function boxSummary(values: number[]): BoxSummary | null {
+  const sorted = sortedFinite(values);
+  if (sorted.length === 0) return null;
+
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lowerFence = q1 - 1.5 * iqr;
+  const upperFence = q3 + 1.5 * iqr;
+  const inside = sorted.filter(
+    (value) => value >= lowerFence && value <= upperFence
+  );
+
+  return {
+    min: inside[0] ?? q1,
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    max: inside[inside.length - 1] ?? q3,
+    mean: mean(sorted),
+    outliers: sorted.filter(
+      (value) => value < lowerFence || value > upperFence
+    ),
+    count: sorted.length,
+  };
+}
+
+/**
+ * Round axis bounds outwards and pick evenly spaced "nice" tick values
+ */
+export function niceTicks(min: number, max: number, targetCount = 5): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [];
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+
+  const rawStep = (max - min) / Math.max(1, targetCount);
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const step =
+    [1, 2, 2.5, 5, 10]
+      .map((factor) => factor * magnitude)
+      .find((candidate) => candidate >= rawStep) ?? 10 * magnitude;
+
+  const ticks: number[] = [];
+  for (
+    let tick = Math.floor(min / step) * step;
+    tick <= max + step / 2;
+    tick += step
+  ) {
+    // Avoid floating point noise such as 0.30000000000000004
+    ticks.push(Number(tick.toPrecision(12)));
+    if (tick >= max) break;
+  }
+  return ticks;
+}
+
+export type BinningMethod = "sturges" | "freedman-diaconis";
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export const MAX_BIN_COUNT = 100;
+
+/**
+ * Number of histogram bins suggested by a binning rule. Freedman–Diaconis
+ * falls back to Sturges when the IQR is zero.
+ */
+export function suggestBinCount(
+  values: number[],
+  method: BinningMethod
+): number {
+  const sorted = sortedFinite(values);
+  if (sorted.length < 2) return 1;
+
+  const sturges = Math.ceil(Math.log2(sorted.length)) + 1;
+  if (method === "sturges") return Math.min(sturges, MAX_BIN_COUNT);
+
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  const range = sorted[sorted.length - 1] - sorted[0];
+  if (iqr === 0 || range === 0) return Math.min(sturges, MAX_BIN_COUNT);
+
+  const width = (2 * iqr) / Math.cbrt(sorted.length);
+  return Math.min(Math.max(1, Math.ceil(range / width)), MAX_BIN_COUNT);
+}
+
+/**
+ * Count values into equal-width bins spanning their range. The last bin is
+ * closed so the maximum lands in it.
+ */
+export function histogramBins(
+  values: number[],
+  binCount: number
+): HistogramBin[] {
+  const sorted = sortedFinite(values);
+  if (sorted.length === 0) return [];
+
+  const count = Math.max(1, Math.round(binCount));
+  let min = sorted[0];
+  let max = sorted[sorted.length - 1];
+  if (min === max) {
+    min -= 0.5;
+    max += 0.5;
+  }
+  const width = (max - min) / count;
+
+  const bins = Array.from({ length: count }, (_, i) => ({
+    start: min + i * width,
+    end: i === count - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+  sorted.forEach((value) => {
+    bins[Math.min(Math.floor((value - min) / width), count - 1)].count += 1;
+  });
+  return bins;
+}
+
+/**
+ * Gaussian kernel density estimate at the given points, using Silverman's
+ * rule of thumb for the bandwidth
+ */
+export function kernelDensity(values: number[], points: number[]): number[] {
+  const sorted = sortedFinite(values);
+  if (sorted.length < 2) return points.map(() => 0);
+
+  const average = mean(sorted);
+  const deviation = Math.sqrt(
+    sorted.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+      (sorted.length - 1)
+  );
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  const spread = Math.min(deviation, iqr / 1.34) || deviation || 1;
+  const bandwidth = 0.9 * spread * sorted.length ** -0.2;
+  const normalizer = 1 / (sorted.length * bandwidth * Math.sqrt(2 * Math.PI));
+
+  return points.map(
+    (point) =>
+      normalizer *
+      sorted.reduce(
+        (sum, value) =>
+          sum + Math.exp(-0.5 * ((point - value) / bandwidth) ** 2),
+        0
+      )
+  );
+}
@@ -0,0 +1,373 @@
+// Built-in suggestion rule packs. The general pack suits any dataset and is
+// always on; the domain packs can be switched on and off per workspace.
+
+import type { ColumnRole, SuggestionPack } from "./suggestions";
+
+// Column roles shared by several packs
+const measure: ColumnRole = { kind: "number" };
+const date: ColumnRole = { kind: "date" };
+const category: ColumnRole = { kind: "text" };
+const revenue: ColumnRole = {
+  kind: "number",
+  keywords: ["revenue", "sales", "price", "amount", "total"],
+};
+const customer: ColumnRole = {
+  kind: "text",
+  keywords: ["customer", "client", "user", "name"],
+};
+const location: ColumnRole = {
+  kind: "text",
+  keywords: ["area", "location", "region", "city", "country", "hub"],
+};
+const branch: ColumnRole = {
+  kind: "text",
+  keywords: ["hub", "branch", "location", "store", "warehouse", "depot"],
+};
+const delivered: ColumnRole = {
+  kind: "number",
+  keywords: ["delivered", "delivery", "fulfilled"],
+};
+const rejected: ColumnRole = {
+  kind: "number",
+  keywords: ["rejected", "cancelled", "returned"],
+};
+const department: ColumnRole = {
+  kind: "text",
+  keywords: ["department", "team", "division", "role", "title"],
+};
+const sessions: ColumnRole = {
+  kind: "number",
+  keywords: ["session", "visit", "pageview", "views", "users", "clicks"],
+};
+const trafficSource: ColumnRole = {
+  kind: "text",
+  keywords: ["source", "channel", "medium", "referrer", "campaign"],
+};
+
+export const GENERAL_PACK: SuggestionPack = {
+  id: "general",
+  name: "General",
+  description: "Rankings, distributions, trends and comparisons for any data",
+  rules: [
+    {
+      id: "top-items",
+      roles: { measure },
+      template: "Show top 5 items by {measure}",
+      weight: 3,
+    },
+    {
+      id: "distribution",
+      roles: { measure },
+      template: "Analyze distribution of {measure}",
+      weight: 2.5,
+    },
+    {
+      id: "trend",
+      roles: { measure, date },
+      template: "Show {measure} trends over {date}",
+      weight: 3,
+    },
+    {
+      id: "date-patterns",
+      roles: { date },
+      template: "Analyze patterns in {date}",
+      weight: 1,
+    },
+    {
+      id: "compare-by-category",
+      roles: { measure, category },
+      template: "Compare {measure} by {category}",
+      weight: 2.5,
+    },
+    {
+      id: "by-location",
+      roles: { measure, location },
+      template: "View {measure} by {location}",
+      weight: 1,
+    },
+    {
+      id: "relationship",
+      roles: { x: measure, y: measure },
+      template: "Show the relationship between {x} and {y}",
+      weight: 1.5,
+    },
+  ],
+};
+
+export const DOMAIN_PACKS: SuggestionPack[] = [
+  {
+    id: "sales",
+    name: "Sales",
+    description: "Customers, products, discounts and revenue",
+    rules: [
+      {
+        id: "top-customers",
+        roles: { customer, revenue },
+        template: "Show top {customer}s by {revenue}",
+        weight: 3,
+      },
+      {
+        id: "revenue-by-branch",
+        roles: { revenue, branch },
+        template: "Compare {revenue} across different {branch}s",
+        weight: 3,
+      },
+      {
+        id: "discount-impact",
+        roles: {
+          discount: {
+            kind: "number",
+            keywords: ["discount", "promo", "coupon"],
+          },
+          revenue,
+        },
+        template: "Analyze impact of {discount}s on {revenue}",
+        weight: 3,
+      },
+      {
+        id: "top-performers",
+        roles: { revenue },
+        template: "Show top performers by {revenue}",
+        weight: 2,
+      },
+      {
+        id: "product-performance",
+        roles: {
+          product: {
+            kind: "text",
+            keywords: ["product", "item", "service", "goods", "dish", "menu"],
+          },
+        },
+        template: "Analyze performance of different {product} types",
+        weight: 2,
+      },
+      {
+        id: "revenue-trend",
+        roles: { revenue, date },
+        template: "Show how {revenue} changes month by month over {date}",
+        weight: 2,
+      },
+    ],
+  },
+  {
+    id: "hr",
+    name: "HR",
+    description: "Headcount, pay, tenure and attrition",
+    rules: [
+      {
+        id: "pay-by-department",
+        roles: {
+          pay: {
+            kind: "number",
+            keywords: ["salary", "pay", "wage", "compensation", "bonus"],
+          },
+          department,
+        },
+        template: "Compare {pay} across {department}s",
+        weight: 3,
+      },
+      {
+        id: "headcount",
+        roles: { department },
+        template: "Show headcount by {department}",
+        weight: 2,
+      },
+      {
+        id: "attrition",
+        roles: {
+          attrition: {
+            kind: "any",
+            keywords: ["attrition", "terminated", "left", "exit", "status"],
+          },
+          department,
+        },
+        template: "Analyze {attrition} by {department}",
+        weight: 3,
+      },
+      {
+        id: "tenure-performance",
+        roles: {
+          tenure: {
+            kind: "number",
+            keywords: ["tenure", "years", "experience", "seniority"],
+          },
+          performance: {
+            kind: "number",
+            keywords: ["performance", "rating", "score", "review"],
+          },
+        },
+        template: "Does {tenure} relate to {performance}?",
+        weight: 2,
+      },
+      {
+        id: "hiring-trend",
+        roles: {
+          hired: { kind: "date", keywords: ["hire", "join", "start"] },
+        },
+        template: "Show hiring trends over {hired}",
+        weight: 2,
+      },
+    ],
+  },
+  {
+    id: "finance",
+    name: "Finance",
+    description: "Costs, margins, budgets and fees",
+    rules: [
+      {
+        id: "fees-vs-revenue",
+        roles: {
+          fee: { kind: "number", keywords: ["commission", "fee", "charge"] },
+          revenue,
+        },
+        template: "Show relationship between {fee} and {revenue}",
+        weight: 3,
+      },
+      {
+        id: "spend-by-category",
+        roles: {
+          spend: { kind: "number", keywords: ["expense", "cost", "spend"] },
+          category: {
+            kind: "text",
+            keywords: ["category", "account", "department", "type", "vendor"],
+          },
+        },
+        template: "Break down {spend} by {category}",
+        weight: 3,
+      },
+      {
+        id: "profit-trend",
+        roles: {
+          profit: {
+            kind: "number",
+            keywords: ["profit", "margin", "income", "earnings"],
+          },
+          date,
+        },
+        template: "Show {profit} over {date}",
+        weight: 3,
+      },
+      {
+        id: "budget-vs-actual",
+        roles: {
+          budget: { kind: "number", keywords: ["budget", "forecast", "plan"] },
+          actual: { kind: "number", keywords: ["actual", "spent", "spend"] },
+        },
+        template:
+          "Compare {budget} against {actual} and highlight the biggest gaps",
+        weight: 3,
+      },
+    ],
+  },
+  {
+    id: "logistics",
+    name: "Logistics",
+    description: "Deliveries, rejections, hubs and lead times",
+    rules: [
+      {
+        id: "delivered-vs-rejected",
+        roles: { delivered, rejected, customer },
+        template: "Compare {delivered} vs {rejected} by {customer}",
+        weight: 3,
+      },
+      {
+        id: "delivery-by-branch",
+        roles: { delivered, branch },
+        template: "Analyze delivery performance by {branch}",
+        weight: 3,
+      },
+      {
+        id: "lead-time",
+        roles: {
+          duration: {
+            kind: "number",
+            keywords: [
+              "duration",
+              "minutes",
+              "hours",
+              "days",
+              "lead",
+              "transit",
+            ],
+          },
+          route: {
+            kind: "text",
+            keywords: ["route", "carrier", "driver", "hub", "region"],
+          },
+        },
+        template: "Which {route}s have the longest {duration}?",
+        weight: 3,
+      },
+      {
+        id: "rejections-over-time",
+        roles: { rejected, date },
+        template: "Show {rejected} over {date} to spot spikes",
+        weight: 2,
+      },
+    ],
+  },
+  {
+    id: "web-analytics",
+    name: "Web analytics",
+    description: "Traffic, sources, conversions and engagement",
+    rules: [
+      {
+        id: "traffic-by-source",
+        roles: { sessions, source: trafficSource },
+        template: "Compare {sessions} by {source}",
+        weight: 3,
+      },
+      {
+        id: "conversion-by-source",
+        roles: {
+          conversions: {
+            kind: "number",
+            keywords: ["conversion", "signup", "purchase", "goal", "order"],
+          },
+          source: trafficSource,
+        },
+        template: "Which {source}s bring the most {conversions}?",
+        weight: 3,
+      },
+      {
+        id: "bounce-by-page",
+        roles: {
+          bounce: { kind: "number", keywords: ["bounce", "exit"] },
+          page: { kind: "text", keywords: ["page", "url", "path", "landing"] },
+        },
+        template: "Find the {page}s with the highest {bounce}",
+        weight: 3,
+      },
+      {
+        id: "traffic-trend",
+        roles: { sessions, date },
+        template: "Show {sessions} over {date}",
+        weight: 2,
+      },
+      {
+        id: "traffic-by-device",
+        roles: {
+          sessions,
+          device: {
+            kind: "text",
+            keywords: ["device", "browser", "platform", "os"],
+          },
+        },
+        template: "Break down {sessions} by {device}",
+        weight: 2,
+      },
+    ],
+  },
+];
+
+export const DEFAULT_ENABLED_PACK_IDS = DOMAIN_PACKS.map((pack) => pack.id);
+
+/**
+ * The general pack plus the enabled domain packs
+ */
+export function enabledSuggestionPacks(packIds: string[]): SuggestionPack[] {
+  return [
+    GENERAL_PACK,
+    ...DOMAIN_PACKS.filter((pack) => packIds.includes(pack.id)),
+  ];
+}
@@ -0,0 +1,222 @@
+// Rule engine for the suggested questions shown under the chat. Each rule
+// names the column roles it needs and a prompt template; rules are grouped
+// into packs, and the best-scoring matches across the enabled packs win.
+
+import { columnKind, isMissingValue } from "./data-grid";
+
+export type RoleKind = "number" | "date" | "text" | "any";
+
+export interface ColumnRole {
+  kind: RoleKind;
+  // Name hints, matched case-insensitively anywhere in the column name. A role
+  // with keywords only binds to a column whose name contains one of them.
+  keywords?: string[];
+}
+
+export interface SuggestionRule {
+  id: string;
+  // Role names are the placeholders in the template, e.g. {measure}
+  roles: Record<string, ColumnRole>;
+  template: string;
+  weight: number; // Base score, before bonuses for keyword matches
+}
+
+export interface SuggestionPack {
+  id: string;
+  name: string;
+  description: string;
+  rules: SuggestionRule[];
+}
+
+export interface SuggestionColumn {
+  name: string;
+  kind: Exclude<RoleKind, "any">;
+}
+
+export interface Suggestion {
+  text: string;
+  ruleId: string;
+  score: number;
+  columns: string[];
+}
+
+export const SUGGESTION_COUNT = 5;
+
+// Score added for each role bound through one of its keywords
+const KEYWORD_MATCH_BONUS = 2;
+// Score removed for each earlier pick that already used the same column
+const REPEATED_COLUMN_PENALTY = 1.5;
+// Rows sampled to spot numbers stored as text
+const NUMERIC_SAMPLE_ROWS = 3;
+// Below this many rule matches, general prompts fill the remaining places
+const MIN_RULE_SUGGESTIONS = 3;
+
+const FALLBACK_SUGGESTIONS = [
+  "Detect patterns or anomalies",
+  "Generate summary statistics",
+  "Visualize key relationships",
+];
+
+function looksNumeric(value: unknown): boolean {
+  if (typeof value === "number") return true;
+  return (
+    typeof value === "string" &&
+    !isNaN(parseFloat(value)) &&
+    isFinite(Number(value))
+  );
+}
+
+/**
+ * Classify the dataset's columns for rule matching. Text columns whose names
+ * mention a date or time count as dates, and text columns whose sampled
+ * values are numbers count as numeric.
+ */
+export function suggestionColumns(
+  dataTypes: Record<string, string>,
+  preview: Record<string, unknown>[] = []
+): SuggestionColumn[] {
+  return Object.entries(dataTypes).map(([name, type]) => {
+    const lowerName = name.toLowerCase();
+    let kind = columnKind(type);
+    if (kind === "text") {
+      const sample = preview
+        .slice(0, NUMERIC_SAMPLE_ROWS)
+        .map((row) => row[name])
+        .filter((value) => !isMissingValue(value));
+      if (lowerName.includes("date") || lowerName.includes("time")) {
+        kind = "date";
+      } else if (sample.length > 0 && sample.some(looksNumeric)) {
+        kind = "number";
+      }
+    }
+    // Booleans group rows the way categories do
+    return { name, kind: kind === "boolean" ? "text" : kind };
+  });
+}
+
+function matchesKeyword(column: string, keywords: string[]): boolean {
+  const lowerColumn = column.toLowerCase();
+  return keywords.some((keyword) =>
+    lowerColumn.includes(keyword.toLowerCase())
+  );
+}
+
+/**
+ * Bind each of a rule's roles to a different column, or return null when a
+ * role can't be filled. Roles with keywords are bound first so generic roles
+ * don't take the columns they need.
+ */
+function bindRoles(
+  rule: SuggestionRule,
+  columns: SuggestionColumn[]
+): { bindings: Record<string, string>; keywordMatches: number } | null {
+  const bindings: Record<string, string> = {};
+  const used = new Set<string>();
+  let keywordMatches = 0;
+
+  const roles = Object.entries(rule.roles).sort(
+    ([, a], [, b]) => Number(!!b.keywords) - Number(!!a.keywords)
+  );
+  for (const [roleName, role] of roles) {
+    const column = columns.find(
+      (candidate) =>
+        !used.has(candidate.name) &&
+        (role.kind === "any" || candidate.kind === role.kind) &&
+        (!role.keywords || matchesKeyword(candidate.name, role.keywords))
+    );
+    if (!column) return null;
+    bindings[roleName] = column.name;
+    used.add(column.name);
+    if (role.keywords) keywordMatches += 1;
+  }
+  return { bindings, keywordMatches };
+}
+
+function fillTemplate(
+  template: string,
+  bindings: Record<string, string>
+): string {
+  return template.replace(
+    /\{(\w+)\}/g,
+    (placeholder, role: string) => bindings[role] ?? placeholder
+  );
+}
+
+/**
+ * Every suggestion the packs' rules can make for these columns, best first
+ */
+export function matchSuggestions(
+  packs: SuggestionPack[],
+  columns: SuggestionColumn[]
+): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  packs.forEach((pack) => {
+    pack.rules.forEach((rule) => {
+      const match = bindRoles(rule, columns);
+      if (!match) return;
+      suggestions.push({
+        text: fillTemplate(rule.template, match.bindings),
+        ruleId: `${pack.id}.${rule.id}`,
+        score: rule.weight + match.keywordMatches * KEYWORD_MATCH_BONUS,
+        columns: Object.values(match.bindings),
+      });
+    });
+  });
+  return suggestions.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick the best suggestions, preferring ones that cover columns the earlier
+ * picks haven't, and topping up with general prompts when too few rules match
+ */
+export function selectSuggestions(
+  candidates: Suggestion[],
+  count = SUGGESTION_COUNT
+): string[] {
+  const remaining = [...candidates];
+  const picked: string[] = [];
+  const columnUses = new Map<string, number>();
+
+  while (picked.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const repeats = candidate.columns.reduce(
+        (total, column) => total + (columnUses.get(column) ?? 0),
+        0
+      );
+      const score = candidate.score - repeats * REPEATED_COLUMN_PENALTY;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    const [best] = remaining.splice(bestIndex, 1);
+    if (picked.includes(best.text)) continue;
+    picked.push(best.text);
+    best.columns.forEach((column) =>
+      columnUses.set(column, (columnUses.get(column) ?? 0) + 1)
+    );
+  }
+
+  if (picked.length < MIN_RULE_SUGGESTIONS) {
+    FALLBACK_SUGGESTIONS.forEach((text) => {
+      if (picked.length < count && !picked.includes(text)) picked.push(text);
+    });
+  }
+  return picked;
+}
+
+/**
+ * Suggested questions for a dataset from the given rule packs
+ */
+export function generateSuggestions(
+  packs: SuggestionPack[],
+  dataTypes: Record<string, string>,
+  preview: Record<string, unknown>[] = []
+): string[] {
+  return selectSuggestions(
+    matchSuggestions(packs, suggestionColumns(dataTypes, preview))
+  );
+}
@@ -0,0 +1,135 @@
+// Files waiting to be uploaded, and the state of each upload
+
+import {
+  canListSheets,
+  datasetLabel,
+  listWorkbookSheets,
+  WorkbookSheet,
+} from "./workbook";
+
+export const ACCEPTED_UPLOAD_EXTENSIONS = [".xlsx", ".xls", ".csv"];
+
+export type UploadStatus =
+  "queued" | "uploading" | "done" | "failed" | "cancelled";
+
+// A file to upload, or one sheet of a workbook
+export interface QueuedUpload {
+  file: File;
+  sheetName?: string;
+  sheetNames?: string[]; // Every sheet in the workbook, for switching later
+}
+
+// A workbook with several sheets, waiting for the user to pick some
+export interface WorkbookChoice {
+  file: File;
+  sheets: WorkbookSheet[];
+}
+
+export interface UploadQueueItem extends QueuedUpload {
+  id: string;
+  status: UploadStatus;
+  progress: number; // Percent of the file sent
+  error?: string;
+  notice?: string; // Retry in progress, e.g. "Rate limited, retrying in 5s"
+  fileId?: string; // Set once the upload succeeded
+}
+
+let nextItemId = 0;
+
+/**
+ * Why a file can't be uploaded, or null if it can
+ */
+export function uploadFileProblem(file: File): string | null {
+  const name = file.name.toLowerCase();
+  if (
+    !ACCEPTED_UPLOAD_EXTENSIONS.some((extension) => name.endsWith(extension))
+  ) {
+    return "Not an Excel (.xlsx, .xls) or CSV (.csv) file";
+  }
+  if (file.size === 0) {
+    return "The file is empty";
+  }
+  return null;
+}
+
+/**
+ * Queue files for upload. Files that can't be uploaded are added as failed,
+ * so the queue shows why they were skipped.
+ */
+export function createQueueItems(uploads: QueuedUpload[]): UploadQueueItem[] {
+  return uploads.map((upload) => {
+    const problem = uploadFileProblem(upload.file);
+    return {
+      ...upload,
+      id: `upload-${++nextItemId}`,
+      status: problem ? "failed" : "queued",
+      progress: 0,
+      error: problem ?? undefined,
+    };
+  });
+}
+
+/**
+ * Look inside dropped or chosen workbooks: those with several sheets need the
+ * user to pick which to upload, everything else can be queued straight away
+ */
+export async function inspectUploads(
+  files: File[]
+): Promise<{ ready: QueuedUpload[]; workbooks: WorkbookChoice[] }> {
+  const ready: QueuedUpload[] = [];
+  const workbooks: WorkbookChoice[] = [];
+
+  for (const file of files) {
+    if (!canListSheets(file.name) || uploadFileProblem(file)) {
+      ready.push({ file });
+      continue;
+    }
+    try {
+      const sheets = await listWorkbookSheets(file);
+      if (sheets.length > 1) {
+        workbooks.push({ file, sheets });
+      } else {
+        // A lone sheet isn't worth naming
+        ready.push({ file });
+      }
+    } catch (error) {
+      // Leave unreadable workbooks for the server to accept or reject
+      console.error(`Couldn't list the sheets of ${file.name}:`, error);
+      ready.push({ file });
+    }
+  }
+  return { ready, workbooks };
+}
+
+/**
+ * Label for an upload in the queue, naming the sheet for workbook sheets
+ */
+export function uploadLabel(upload: QueuedUpload): string {
+  return datasetLabel(upload.file.name, upload.sheetName);
+}
+
+/**
+ * Whether the item is still waiting for or in the middle of its upload
+ */
+export function isUploadPending(item: UploadQueueItem): boolean {
+  return item.status === "queued" || item.status === "uploading";
+}
+
+/**
+ * Whether an upload that didn't succeed can be tried again
+ */
+export function canRetryUpload(item: UploadQueueItem): boolean {
+  return (
+    (item.status === "failed" || item.status === "cancelled") &&
+    uploadFileProblem(item.file) === null
+  );
+}
+
+/**
+ * Format a file size for display, e.g. "1.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,82 @@
+// Looking inside Excel workbooks before they are uploaded, to list their sheets
+
+import { readZipEntry } from "./zip";
+
+export interface WorkbookSheet {
+  name: string;
+  hidden: boolean;
+}
+
+const WORKBOOK_PART = "xl/workbook.xml";
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlText(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(value);
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+function readAttribute(tag: string, attribute: string): string | null {
+  const match = tag.match(
+    new RegExp(`\\s${attribute}\\s*=\\s*("([^"]*)"|'([^']*)')`)
+  );
+  return match ? decodeXmlText(match[2] ?? match[3]) : null;
+}
+
+/**
+ * Whether sheets can be listed for this file - only .xlsx workbooks, as the
+ * older binary .xls format isn't read here
+ */
+export function canListSheets(filename: string): boolean {
+  return filename.toLowerCase().endsWith(".xlsx");
+}
+
+/**
+ * Whether the file is an older binary .xls workbook, whose sheets can't be
+ * listed before upload
+ */
+export function isLegacyWorkbook(filename: string): boolean {
+  return filename.toLowerCase().endsWith(".xls");
+}
+
+/**
+ * List a workbook's sheets in tab order, from the sheet list in its
+ * xl/workbook.xml part
+ */
+export async function listWorkbookSheets(file: Blob): Promise<WorkbookSheet[]> {
+  const part = await readZipEntry(await file.arrayBuffer(), WORKBOOK_PART);
+  if (!part) {
+    throw new Error("The file is not an Excel workbook");
+  }
+
+  const xml = new TextDecoder().decode(part);
+  // Sheet elements may carry a namespace prefix, e.g. <x:sheet .../>
+  const tags = xml.match(/<(?:\w+:)?sheet\s[^>]*>/g) ?? [];
+  return tags.flatMap((tag) => {
+    const name = readAttribute(tag, "name");
+    if (name === null) return [];
+    const state = readAttribute(tag, "state");
+    return [{ name, hidden: state === "hidden" || state === "veryHidden" }];
+  });
+}
+
+/**
+ * Name for a dataset made from a file, naming the sheet for workbook sheets
+ */
+export function datasetLabel(filename: string, sheetName?: string): string {
+  return sheetName ? `${filename} › ${sheetName}` : filename;
+}
@@ -0,0 +1,177 @@
+// Minimal ZIP writer for bundling downloads, and reader for single entries of
+// uploaded archives such as Excel workbooks. Written entries are stored
+// uncompressed, which is fine for the already-compressed PNGs and small text
+// files we export.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, as stored in ZIP headers
+function dosDateTime(date: Date): [number, number] {
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2);
+  const day =
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+  return [time, day];
+}
+
+/**
+ * Bundle files into a ZIP archive. Duplicate names get a numeric suffix.
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const [time, day] = dosDateTime(new Date());
+  const usedNames = new Set<string>();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    let name = entry.name;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = entry.name.replace(/(\.[^.]*)?$/, `-${i}$1`);
+    }
+    usedNames.add(name);
+
+    const nameBytes = encoder.encode(name);
+    const data =
+      typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // Stored, no compression
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    localParts.push(new Uint8Array(local.buffer), nameBytes, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, day, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob(
+    [...localParts, ...centralParts, new Uint8Array(end.buffer)] as BlobPart[],
+    { type: "application/zip" }
+  );
+}
+
+// Size of the end of central directory record without its trailing comment
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read one file out of a ZIP archive, or null if the archive doesn't have it.
+ * Handles stored and deflated entries, which covers Office documents.
+ */
+export async function readZipEntry(
+  archive: ArrayBuffer,
+  entryName: string
+): Promise<Uint8Array | null> {
+  const view = new DataView(archive);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end, before an optional comment
+  let end = -1;
+  const earliest = Math.max(
+    0,
+    archive.byteLength - END_RECORD_SIZE - MAX_COMMENT_SIZE
+  );
+  for (let i = archive.byteLength - END_RECORD_SIZE; i >= earliest; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const entryCount = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(position, true) !== 0x02014b50) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(archive, position + 46, nameLength)
+    );
+
+    if (name === entryName) {
+      // The local header's name and extra field can differ from the central one
+      const dataStart =
+        localOffset +
+        30 +
+        view.getUint16(localOffset + 26, true) +
+        view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(archive, dataStart, compressedSize);
+      if (method === 0) return data.slice();
+      if (method === 8) return inflateRaw(data);
+      throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
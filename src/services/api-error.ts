@@ -0,0 +1,190 @@
+// Error type thrown by every call in the API service
+
+export interface ApiValidationIssue {
+  loc: (string | number)[];
+  msg: string;
+  type?: string;
+}
+
+export type ApiErrorDetail = string | ApiValidationIssue[] | undefined;
+
+export type ApiErrorKind = "http" | "network" | "timeout";
+
+// Statuses where trying the same request again later can succeed
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+// Statuses meaning the backend doesn't offer an endpoint at all
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+
+interface ApiErrorInit {
+  kind: ApiErrorKind;
+  status: number;
+  endpoint: string;
+  detail?: ApiErrorDetail;
+  requestId?: string;
+  retryAfterMs?: number;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** HTTP status, or 0 when no response was received */
+  readonly status: number;
+  readonly endpoint: string;
+  readonly detail: ApiErrorDetail;
+  readonly requestId?: string;
+  /** Delay the server asked for through a Retry-After header */
+  readonly retryAfterMs?: number;
+
+  constructor({ kind, status, endpoint, detail, requestId, retryAfterMs }: ApiErrorInit) {
+    super(ApiError.buildMessage(kind, status, endpoint, detail));
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.endpoint = endpoint;
+    this.detail = detail;
+    this.requestId = requestId;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /** Whether the same request may succeed if it is sent again */
+  get retryable(): boolean {
+    return this.kind !== "http" || RETRYABLE_STATUSES.includes(this.status);
+  }
+
+  /** Whether the backend has no such endpoint, as with older backend versions */
+  get unsupported(): boolean {
+    return this.kind === "http" && UNSUPPORTED_STATUSES.includes(this.status);
+  }
+
+  /** Field-level problems from a FastAPI 422 response */
+  get validationIssues(): ApiValidationIssue[] {
+    return Array.isArray(this.detail) ? this.detail : [];
+  }
+
+  /**
+   * Build an ApiError from a failed response, reading FastAPI's `detail` body
+   */
+  static async fromResponse(response: Response, endpoint: string): Promise<ApiError> {
+    const body = await response.json().catch(() => ({}));
+    return new ApiError({
+      kind: "http",
+      status: response.status,
+      endpoint,
+      detail: parseErrorDetail(body?.detail),
+      requestId: response.headers.get("x-request-id") ?? undefined,
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    });
+  }
+
+  private static buildMessage(
+    kind: ApiErrorKind,
+    status: number,
+    endpoint: string,
+    detail: ApiErrorDetail
+  ): string {
+    if (typeof detail === "string" && detail) return detail;
+    if (Array.isArray(detail) && detail.length > 0) {
+      return detail.map(formatValidationIssue).join("; ");
+    }
+    if (kind === "timeout") return `Request to ${endpoint} timed out`;
+    if (kind === "network") return `Could not reach the server (${endpoint})`;
+    return `Request to ${endpoint} failed with status: ${status}`;
+  }
+}
+
+function formatValidationIssue(issue: ApiValidationIssue): string {
+  // FastAPI prefixes locations with "body"/"query" - drop it for display
+  const field = issue.loc.filter((part) => part !== "body" && part !== "query").join(".");
+  return field ? `${field}: ${issue.msg}` : issue.msg;
+}
+
+/**
+ * Normalise FastAPI's `detail`, which is a string for HTTPException and an
+ * array of issues for request validation errors
+ */
+export function parseErrorDetail(detail: unknown): ApiErrorDetail {
+  if (typeof detail === "string") return detail;
+  if (Array.isArray(detail)) {
+    return detail
+      .filter((item) => item && typeof item === "object")
+      .map((item) => ({
+        loc: Array.isArray(item.loc) ? item.loc : [],
+        msg: String(item.msg ?? "Invalid value"),
+        type: typeof item.type === "string" ? item.type : undefined,
+      }));
+  }
+  if (detail && typeof detail === "object") return JSON.stringify(detail);
+  return undefined;
+}
+
+/**
+ * Read a Retry-After header, in seconds or as an HTTP date, as a delay in ms
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Turn an error from the API service into a message that can be shown to users
+ */
+export function describeApiError(error: unknown): string {
+  if (!(error instanceof ApiError)) {
+    return error instanceof Error ? error.message : "Something went wrong. Please try again.";
+  }
+
+  switch (error.kind) {
+    case "timeout":
+      return "The server took too long to respond. Please try again.";
+    case "network":
+      return "Couldn't reach the server. Check your connection or the API URL.";
+  }
+
+  switch (error.status) {
+    case 401:
+      if (error.endpoint === "/auth/login") {
+        return "Incorrect email or password.";
+      }
+      return "Your session has expired. Please sign in again.";
+    case 403:
+      return "You don't have access to this data.";
+    case 404:
+      if (error.endpoint.startsWith("/chat") || error.endpoint.startsWith("/conversations")) {
+        return "This file has expired on the server. Please upload it again.";
+      }
+      return error.message;
+    case 413:
+      return "The file is too large for the server to accept.";
+    case 415:
+      return "This file type isn't supported. Upload an Excel (.xlsx, .xls) or CSV file.";
+    case 422:
+      return `The server rejected the request: ${error.message}`;
+    case 429:
+      return "Too many requests - the server is rate limiting us. Please wait a moment.";
+  }
+
+  if (error.status >= 500) {
+    const serverDetail = typeof error.detail === "string" && error.detail ? ` ${error.detail}` : "";
+    return `The server ran into a problem (${error.status}).${serverDetail}`;
+  }
+  return error.message;
+}
+
+/**
+ * Describe an automatic retry, e.g. "Rate limited, retrying in 5s"
+ */
+export function describeRetry(error: ApiError, delayMs: number): string {
+  const seconds = Math.max(1, Math.round(delayMs / 1000));
+  let reason = "Request failed";
+  if (error.kind === "timeout") reason = "Request timed out";
+  else if (error.kind === "network") reason = "Connection problem";
+  else if (error.status === 429) reason = "Rate limited";
+  else if (error.status >= 500) reason = "Server unavailable";
+  return `${reason}, retrying in ${seconds}s`;
+}
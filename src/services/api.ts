@@ -1,6 +1,247 @@
 // API service to handle interactions with the backend
 
-const API_BASE_URL = "https://api.rabib200.com";
+import { ApiError, isAbortError, parseErrorDetail, parseRetryAfter } from "./api-error";
+import type { ColumnProfile } from "@/lib/column-profile";
+import type { ColumnFilter, ColumnSort } from "@/lib/data-grid";
+
+// The FastAPI backend, called directly or through the same-origin proxy
+export const BACKEND_API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_BASE_URL || "https://api.rabib200.com";
+// Route handlers of this app: the proxy to the backend, and the mock backend
+const PROXY_API_BASE_URL = "/api/proxy";
+const MOCK_API_BASE_URL = "/api/mock";
+
+// Build-time default, overridable per browser from the API settings screen
+const DEFAULT_API_BASE_URL =
+  process.env.NEXT_PUBLIC_USE_MOCK_API === "true"
+    ? MOCK_API_BASE_URL
+    : process.env.NEXT_PUBLIC_USE_API_PROXY === "true"
+      ? PROXY_API_BASE_URL
+      : BACKEND_API_BASE_URL;
+const API_BASE_URL_STORAGE_KEY = "databot.apiBaseUrl";
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+/**
+ * Get the base URL configured at build time
+ */
+export function getDefaultApiBaseUrl(): string {
+  return normalizeBaseUrl(DEFAULT_API_BASE_URL);
+}
+
+/**
+ * Get the base URL all API calls are sent to - the saved runtime override if
+ * there is one, otherwise the build-time default
+ */
+export function getApiBaseUrl(): string {
+  if (typeof window !== "undefined") {
+    const saved = window.localStorage.getItem(API_BASE_URL_STORAGE_KEY);
+    if (saved) return normalizeBaseUrl(saved);
+  }
+  return getDefaultApiBaseUrl();
+}
+
+/**
+ * Save a runtime override for the API base URL, or clear it with null
+ */
+export function setApiBaseUrl(url: string | null) {
+  if (typeof window === "undefined") return;
+  if (url && normalizeBaseUrl(url)) {
+    window.localStorage.setItem(API_BASE_URL_STORAGE_KEY, normalizeBaseUrl(url));
+  } else {
+    window.localStorage.removeItem(API_BASE_URL_STORAGE_KEY);
+  }
+}
+
+function apiUrl(path: string, baseUrl = getApiBaseUrl()): string {
+  return `${baseUrl}${path}`;
+}
+
+export interface ApiClientConfig {
+  /** Time allowed for a request to get a response before it is aborted */
+  timeoutMs: number;
+  /** Time allowed for a file upload, which can be much slower */
+  uploadTimeoutMs: number;
+  /** How many times a failed request is retried */
+  retries: number;
+  /** First backoff delay, doubled on every retry */
+  retryBaseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxRetryDelayMs: number;
+}
+
+const apiConfig: ApiClientConfig = {
+  timeoutMs: 120_000,
+  uploadTimeoutMs: 300_000,
+  retries: 2,
+  retryBaseDelayMs: 1000,
+  maxRetryDelayMs: 30_000,
+};
+
+/**
+ * Change the timeout and retry defaults used by every API call
+ */
+export function configureApiClient(config: Partial<ApiClientConfig>) {
+  Object.assign(apiConfig, config);
+}
+
+export interface ApiAuthConfig {
+  /** Bearer token sent with every request, or null when signed out */
+  getToken: () => string | null;
+  /** Called when the backend turns a request away as unauthenticated */
+  onUnauthorized: () => void;
+}
+
+let apiAuth: ApiAuthConfig | null = null;
+
+/**
+ * Set how API calls are authenticated, or stop authenticating them with null
+ */
+export function configureApiAuth(config: ApiAuthConfig | null) {
+  apiAuth = config;
+}
+
+const LOGIN_ENDPOINT = "/auth/login";
+
+/**
+ * The signed-in user's token, for requests to the configured backend or the
+ * proxy only - never for other URLs, such as one typed in to test it
+ */
+function authHeader(baseUrl = getApiBaseUrl()): Record<string, string> {
+  if (baseUrl !== getApiBaseUrl() && baseUrl !== PROXY_API_BASE_URL) {
+    return {};
+  }
+  const token = apiAuth?.getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Let the app send the user back to sign in when a request was rejected for
+ * a missing or expired token. A rejected sign-in is only a wrong password.
+ */
+function handleUnauthorized(status: number, endpoint: string) {
+  if (status === 401 && endpoint !== LOGIN_ENDPOINT) {
+    apiAuth?.onUnauthorized();
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  /** Called before waiting to retry a failed request */
+  onRetry?: (error: ApiError, delayMs: number, attempt: number) => void;
+}
+
+function abortError(message = "Request cancelled") {
+  return new DOMException(message, "AbortError");
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function retryDelay(error: ApiError, attempt: number): number {
+  const backoff = apiConfig.retryBaseDelayMs * 2 ** attempt;
+  return Math.min(error.retryAfterMs ?? backoff, apiConfig.maxRetryDelayMs);
+}
+
+/**
+ * Run a request, retrying with exponential backoff. Idempotent requests are
+ * retried on any retryable error; others only when the server turned them
+ * away without processing them (rate limiting).
+ */
+async function withRetries<T>(
+  send: () => Promise<T>,
+  { signal, retries = apiConfig.retries, onRetry }: RequestOptions,
+  idempotent: boolean
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send();
+    } catch (error) {
+      const canRetry =
+        error instanceof ApiError &&
+        (idempotent ? error.retryable : error.status === 429);
+
+      if (!canRetry || attempt >= retries || signal?.aborted) {
+        throw error;
+      }
+
+      const delayMs = retryDelay(error, attempt);
+      onRetry?.(error, delayMs, attempt + 1);
+      await wait(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * fetch with a timeout, turning failed responses and network errors into ApiError.
+ * The timeout covers waiting for the response headers, so streamed bodies
+ * can keep arriving for as long as they need.
+ */
+async function apiFetch(
+  path: string,
+  init: RequestInit,
+  { signal, timeoutMs = apiConfig.timeoutMs }: RequestOptions = {},
+  baseUrl?: string
+): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  if (signal?.aborted) throw abortError();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const headers = new Headers(init.headers);
+  Object.entries(authHeader(baseUrl)).forEach(([name, value]) => headers.set(name, value));
+
+  let response: Response;
+  try {
+    response = await fetch(apiUrl(path, baseUrl), {
+      ...init,
+      headers,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (timedOut) {
+      throw new ApiError({ kind: "timeout", status: 0, endpoint: path });
+    }
+    if (signal?.aborted || isAbortError(error)) throw error;
+    throw new ApiError({ kind: "network", status: 0, endpoint: path });
+  } finally {
+    clearTimeout(timer);
+    // Don't pile listeners onto long-lived signals. Streamed bodies watch the
+    // signal themselves.
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  if (!response.ok) {
+    handleUnauthorized(response.status, path);
+    throw await ApiError.fromResponse(response, path);
+  }
+  return response;
+}
 
 export interface UploadResponse {
   file_id: string;
@@ -11,6 +252,8 @@ export interface UploadResponse {
     data_types: Record<string, string>;
   };
   data_preview: Record<string, unknown>[];
+  sheet_name?: string; // The workbook sheet the data was read from
+  sheet_names?: string[]; // Every sheet in the workbook
 }
 
 export interface ChatResponse {
@@ -32,26 +275,127 @@ export interface ConversationResponse {
   updated_at: string;
 }
 
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface LoginResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number; // Seconds until the token expires
+  user: AuthUser;
+}
+
+export interface UploadOptions extends RequestOptions {
+  onProgress?: (percent: number) => void;
+  /** Sheet to read from an Excel workbook, instead of the first one */
+  sheetName?: string;
+}
+
+const UPLOAD_ENDPOINT = "/upload/file/";
+
 /**
- * Upload a file (Excel or CSV) to the server
+ * Build an ApiError from a finished XMLHttpRequest
  */
-export async function uploadFile(file: File): Promise<UploadResponse> {
-  const formData = new FormData();
-  formData.append("file", file);
-
-  const response = await fetch(`${API_BASE_URL}/upload/file/`, {
-    method: "POST",
-    body: formData,
+function uploadError(xhr: XMLHttpRequest): ApiError {
+  handleUnauthorized(xhr.status, UPLOAD_ENDPOINT);
+  return new ApiError({
+    kind: "http",
+    status: xhr.status,
+    endpoint: UPLOAD_ENDPOINT,
+    detail: parseErrorDetail(xhr.response?.detail),
+    requestId: xhr.getResponseHeader("x-request-id") ?? undefined,
+    retryAfterMs: parseRetryAfter(xhr.getResponseHeader("retry-after")),
   });
+}
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      errorData.detail || `Upload failed with status: ${response.status}`
-    );
-  }
+/**
+ * Send a single upload request with XMLHttpRequest so we get byte-level progress
+ */
+function sendUploadRequest(
+  file: File,
+  { onProgress, signal, sheetName, timeoutMs = apiConfig.uploadTimeoutMs }: UploadOptions
+): Promise<UploadResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError("Upload cancelled"));
+      return;
+    }
 
-  return response.json();
+    const formData = new FormData();
+    formData.append("file", file);
+    if (sheetName) {
+      formData.append("sheet_name", sheetName);
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", apiUrl(UPLOAD_ENDPOINT));
+    xhr.responseType = "json";
+    xhr.timeout = timeoutMs;
+    Object.entries(authHeader()).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort);
+    const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response as UploadResponse);
+      } else {
+        reject(uploadError(xhr));
+      }
+    };
+
+    xhr.onerror = () => {
+      cleanup();
+      reject(new ApiError({ kind: "network", status: 0, endpoint: UPLOAD_ENDPOINT }));
+    };
+
+    xhr.ontimeout = () => {
+      cleanup();
+      reject(new ApiError({ kind: "timeout", status: 0, endpoint: UPLOAD_ENDPOINT }));
+    };
+
+    xhr.onabort = () => {
+      cleanup();
+      reject(abortError("Upload cancelled"));
+    };
+
+    xhr.send(formData);
+  });
+}
+
+/**
+ * Upload a file (Excel or CSV) to the server.
+ * Reports real upload progress and can be cancelled through `signal`. Only
+ * rate-limited uploads are retried automatically.
+ */
+export async function uploadFile(
+  file: File,
+  options: UploadOptions = {}
+): Promise<UploadResponse> {
+  // An upload whose response was lost may still have created a file on the
+  // server, so it isn't re-sent like an idempotent request
+  return withRetries(
+    () => sendUploadRequest(file, options),
+    {
+      ...options,
+      onRetry: (error, delayMs, attempt) => {
+        options.onProgress?.(0);
+        options.onRetry?.(error, delayMs, attempt);
+      },
+    },
+    false
+  );
 }
 
 /**
@@ -67,44 +411,308 @@ export async function uploadExcelFile(file: File): Promise<UploadResponse> {
  */
 export async function sendChatMessage(
   fileId: string,
-  message: string
+  message: string,
+  options: RequestOptions = {}
 ): Promise<ChatResponse> {
-  const response = await fetch(`${API_BASE_URL}/chat/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      file_id: fileId,
-      message,
-    }),
-  });
+  const response = await withRetries(
+    () =>
+      apiFetch(
+        "/chat/",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            file_id: fileId,
+            message,
+          }),
+        },
+        options
+      ),
+    options,
+    false
+  );
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      errorData.detail || `Chat failed with status: ${response.status}`
+  return response.json();
+}
+
+export interface ChatStreamOptions extends RequestOptions {
+  onToken: (token: string) => void;
+}
+
+/**
+ * Pull the text out of a single SSE `data:` payload. The backend may send
+ * plain text or JSON objects carrying a `token`, `delta` or `content` field.
+ */
+function extractStreamToken(payload: string): string {
+  try {
+    const parsed = JSON.parse(payload);
+    if (typeof parsed === "string") return parsed;
+    if (parsed && typeof parsed === "object") {
+      return parsed.token ?? parsed.delta ?? parsed.content ?? "";
+    }
+  } catch {
+    // Not JSON - treat the payload as raw text
+  }
+  return payload;
+}
+
+/**
+ * Stream a chat response token by token from `/chat/stream/`.
+ * Supports both server-sent events and plain chunked text, and falls back to
+ * `sendChatMessage` when the server doesn't offer a streaming endpoint.
+ * Resolves with the complete response once the stream has finished.
+ */
+export async function streamChatMessage(
+  fileId: string,
+  message: string,
+  options: ChatStreamOptions
+): Promise<ChatResponse> {
+  const { onToken, ...requestOptions } = options;
+  let response: Response;
+
+  try {
+    response = await withRetries(
+      () =>
+        apiFetch(
+          "/chat/stream/",
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Accept: "text/event-stream, text/plain",
+            },
+            body: JSON.stringify({
+              file_id: fileId,
+              message,
+            }),
+          },
+          requestOptions
+        ),
+      requestOptions,
+      false
     );
+  } catch (error) {
+    // Older backends have no streaming endpoint
+    if (!(error instanceof ApiError) || !error.unsupported) {
+      throw error;
+    }
+    const data = await sendChatMessage(fileId, message, requestOptions);
+    onToken(data.analysis);
+    return data;
   }
 
-  return response.json();
+  const contentType = response.headers.get("content-type") || "";
+
+  // Server answered with a regular ChatResponse instead of a stream
+  if (contentType.includes("application/json") || !response.body) {
+    const data: ChatResponse = await response.json();
+    onToken(data.analysis);
+    return data;
+  }
+
+  const isEventStream = contentType.includes("text/event-stream");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let analysis = "";
+  let buffer = "";
+  let done = false;
+
+  const emit = (token: string) => {
+    if (!token) return;
+    analysis += token;
+    onToken(token);
+  };
+
+  // Handle one complete SSE event (lines separated by a blank line)
+  const handleEvent = (event: string) => {
+    const data = event
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+
+    if (!data) return;
+    if (data === "[DONE]") {
+      done = true;
+      return;
+    }
+    emit(extractStreamToken(data));
+  };
+
+  // apiFetch stopped watching the signal once the response arrived
+  const { signal } = requestOptions;
+  const cancelRead = () => reader.cancel().catch(() => undefined);
+  if (signal?.aborted) {
+    cancelRead();
+    throw abortError();
+  }
+  signal?.addEventListener("abort", cancelRead, { once: true });
+
+  try {
+    while (!done) {
+      const { value, done: streamDone } = await reader.read();
+      if (signal?.aborted) throw abortError();
+      if (streamDone) break;
+
+      const chunk = decoder.decode(value, { stream: true });
+      if (!isEventStream) {
+        emit(chunk);
+        continue;
+      }
+
+      buffer += chunk.replace(/\r\n/g, "\n");
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1 && !done) {
+        handleEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", cancelRead);
+  }
+
+  if (done) {
+    await reader.cancel().catch(() => undefined);
+  } else if (isEventStream) {
+    handleEvent(buffer);
+  } else {
+    emit(decoder.decode());
+  }
+
+  return {
+    file_id: fileId,
+    filename: "",
+    analysis,
+  };
 }
 
 /**
  * Get the conversation history for a file
  */
 export async function getConversationHistory(
-  fileId: string
+  fileId: string,
+  options: RequestOptions = {}
 ): Promise<ConversationResponse> {
-  const response = await fetch(`${API_BASE_URL}/conversations/${fileId}`);
+  const response = await withRetries(
+    () => apiFetch(`/conversations/${fileId}`, {}, options),
+    options,
+    true
+  );
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      errorData.detail ||
-        `Failed to fetch conversation history with status: ${response.status}`
-    );
+  return response.json();
+}
+
+export interface RowsQuery {
+  offset: number;
+  limit: number;
+  sort?: ColumnSort | null;
+  filters?: ColumnFilter[];
+}
+
+export interface RowsResponse {
+  file_id: string;
+  total: number; // Rows matching the filters
+  offset: number;
+  limit: number;
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Get one page of a dataset's rows, sorted and filtered on the server
+ */
+export async function getDatasetRows(
+  fileId: string,
+  { offset, limit, sort, filters = [] }: RowsQuery,
+  options: RequestOptions = {}
+): Promise<RowsResponse> {
+  const params = new URLSearchParams({
+    offset: String(offset),
+    limit: String(limit),
+  });
+  if (sort) {
+    params.set("sort_by", sort.column);
+    params.set("sort_dir", sort.direction);
+  }
+  if (filters.length > 0) {
+    params.set("filters", JSON.stringify(filters));
   }
 
+  const response = await withRetries(
+    () => apiFetch(`/rows/${fileId}?${params}`, {}, options),
+    options,
+    true
+  );
+
+  return response.json();
+}
+
+export interface ProfileResponse {
+  file_id: string;
+  rows: number;
+  columns: ColumnProfile[];
+}
+
+/**
+ * Get column profiles computed over every row of a dataset
+ */
+export async function getColumnProfiles(
+  fileId: string,
+  options: RequestOptions = {}
+): Promise<ProfileResponse> {
+  const response = await withRetries(
+    () => apiFetch(`/profile/${fileId}`, {}, options),
+    options,
+    true
+  );
+
   return response.json();
 }
+
+/**
+ * Exchange an email and password for an access token
+ */
+export async function login(
+  email: string,
+  password: string,
+  options: RequestOptions = {}
+): Promise<LoginResponse> {
+  const response = await withRetries(
+    () =>
+      apiFetch(
+        LOGIN_ENDPOINT,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ email, password }),
+        },
+        options
+      ),
+    options,
+    false
+  );
+
+  return response.json();
+}
+
+/**
+ * Check that a backend is reachable by calling its root endpoint.
+ * Tests the configured base URL unless another one is given.
+ */
+export async function checkApiConnection(
+  baseUrl?: string,
+  options: RequestOptions = { retries: 0, timeoutMs: 10_000 }
+): Promise<unknown> {
+  const response = await withRetries(
+    () =>
+      apiFetch("/", {}, options, baseUrl ? normalizeBaseUrl(baseUrl) : undefined),
+    options,
+    true
+  );
+
+  return response.json().catch(() => null);
+}
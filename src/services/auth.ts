@@ -0,0 +1,142 @@
+// Signing in to the workspace: pluggable providers that exchange credentials
+// for an access token, and the signed-in session kept in the browser
+
+import { login, type AuthUser } from "./api";
+import {
+  createDevToken,
+  DEV_AUTH_ENABLED,
+  DEV_TOKEN_TTL_MS,
+  devAccounts,
+  findDevUser,
+} from "@/lib/dev-auth";
+
+const AUTH_SESSION_KEY = "databot.auth";
+
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+  expiresAt: string | null; // null when the provider didn't say
+}
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+export interface AuthProvider {
+  id: string;
+  name: string;
+  /** Shown under the sign-in form, e.g. which accounts exist */
+  hint?: string;
+  signIn: (credentials: Credentials) => Promise<AuthSession>;
+}
+
+// Accounts from NEXT_PUBLIC_AUTH_DEV_USERS, checked in the browser, for
+// development against the mock backend or a backend without auth. Only
+// available with NEXT_PUBLIC_AUTH_DEV_MODE=true.
+const localProvider: AuthProvider = {
+  id: "local",
+  name: "Local dev accounts",
+  get hint() {
+    const [account] = devAccounts();
+    return account
+      ? `Dev sign-in: ${account.email} / ${account.password}`
+      : undefined;
+  },
+  async signIn({ email, password }) {
+    const user = findDevUser(email, password);
+    if (!user) {
+      throw new Error("Incorrect email or password.");
+    }
+    const expiresAt = Date.now() + DEV_TOKEN_TTL_MS;
+    return {
+      token: createDevToken(user, expiresAt),
+      user,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  },
+};
+
+// The backend's own accounts, through its /auth/login endpoint
+const backendProvider: AuthProvider = {
+  id: "backend",
+  name: "Backend accounts",
+  async signIn({ email, password }) {
+    const response = await login(email, password);
+    return {
+      token: response.access_token,
+      user: response.user,
+      expiresAt: response.expires_in
+        ? new Date(Date.now() + response.expires_in * 1000).toISOString()
+        : null,
+    };
+  },
+};
+
+const authProviders = new Map<string, AuthProvider>(
+  (DEV_AUTH_ENABLED ? [localProvider, backendProvider] : [backendProvider]).map(
+    (provider) => [provider.id, provider]
+  )
+);
+
+/**
+ * Make another sign-in provider available, e.g. for an SSO integration.
+ * Select it with NEXT_PUBLIC_AUTH_PROVIDER.
+ */
+export function registerAuthProvider(provider: AuthProvider) {
+  authProviders.set(provider.id, provider);
+}
+
+export interface AuthConfig {
+  provider: AuthProvider | null; // null when sign-in is turned off
+  problem: string | null; // Why the configured provider can't be used
+}
+
+/**
+ * The provider named by NEXT_PUBLIC_AUTH_PROVIDER. Sign-in is off when none
+ * is named.
+ */
+export function getAuthConfig(): AuthConfig {
+  const providerId = process.env.NEXT_PUBLIC_AUTH_PROVIDER;
+  if (!providerId) return { provider: null, problem: null };
+
+  const provider = authProviders.get(providerId);
+  if (provider) return { provider, problem: null };
+  return {
+    provider: null,
+    problem:
+      providerId === "local"
+        ? 'The "local" auth provider needs NEXT_PUBLIC_AUTH_DEV_MODE=true.'
+        : `Unknown auth provider "${providerId}" in NEXT_PUBLIC_AUTH_PROVIDER.`,
+  };
+}
+
+/**
+ * Get the signed-in session, or null when signed out or the session expired
+ */
+export function loadAuthSession(): AuthSession | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(AUTH_SESSION_KEY);
+    const session = raw ? (JSON.parse(raw) as AuthSession) : null;
+    if (!session?.token || !session.user?.id) return null;
+    if (session.expiresAt && Date.parse(session.expiresAt) <= Date.now()) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the signed-in session, or forget it with null
+ */
+export function saveAuthSession(session: AuthSession | null) {
+  if (typeof window === "undefined") return;
+  if (session) {
+    window.localStorage.setItem(AUTH_SESSION_KEY, JSON.stringify(session));
+  } else {
+    window.localStorage.removeItem(AUTH_SESSION_KEY);
+  }
+}
@@ -0,0 +1,182 @@
+// Local persistence of analysis sessions in IndexedDB, so conversations and
+// charts survive without the backend's conversation store. Each signed-in
+// user gets a database of their own.
+
+import type { UploadResponse } from "./api";
+import { getSessionUser } from "./session-store";
+import type { ChartData, ChartParseError, ChartRepair } from "@/lib/chart-data";
+import type { Dashboard } from "@/lib/dashboard";
+import { datasetLabel } from "@/lib/workbook";
+
+const DB_NAME = "databot";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const EXPORT_FORMAT_VERSION = 1;
+
+export interface SavedMessage {
+  role: "user" | "assistant";
+  content: string;
+  formattedContent?: string;
+  timestamp: string;
+  charts?: ChartData[];
+  chartErrors?: ChartParseError[];
+  chartRepairs?: ChartRepair[];
+  isCancelled?: boolean;
+}
+
+export interface SavedSession {
+  fileId: string;
+  name: string; // Display name, defaults to the filename (and sheet) and can be renamed
+  file: UploadResponse;
+  messages: SavedMessage[];
+  visualizationCharts: ChartData[];
+  dashboard?: Dashboard; // Missing from sessions saved before dashboards existed
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedSessionSummary {
+  fileId: string;
+  name: string;
+  filename: string;
+  rows: number;
+  messageCount: number;
+  updatedAt: string;
+}
+
+export type SessionSnapshot = Pick<SavedSession, "fileId" | "file" | "messages" | "visualizationCharts" | "dashboard">;
+
+// Open databases by name, one per user
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+function databaseName(): string {
+  const userId = getSessionUser();
+  return userId ? `${DB_NAME}.user.${userId}` : DB_NAME;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"));
+  }
+
+  const name = databaseName();
+  let databasePromise = databases.get(name);
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: "fileId" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databases.delete(name);
+        reject(request.error);
+      };
+    });
+    databases.set(name, databasePromise);
+  }
+  return databasePromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function sessionsStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(SESSIONS_STORE, mode).objectStore(SESSIONS_STORE);
+}
+
+function toSummary(session: SavedSession): SavedSessionSummary {
+  return {
+    fileId: session.fileId,
+    name: session.name,
+    filename: session.file.filename,
+    rows: session.file.summary.rows,
+    messageCount: session.messages.length,
+    updatedAt: session.updatedAt,
+  };
+}
+
+/**
+ * List saved sessions, most recently updated first
+ */
+export async function listSavedSessions(): Promise<SavedSessionSummary[]> {
+  const store = await sessionsStore("readonly");
+  const sessions = await requestResult(store.getAll() as IDBRequest<SavedSession[]>);
+  return sessions
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Load a saved session by file id
+ */
+export async function getSavedSession(fileId: string): Promise<SavedSession | undefined> {
+  const store = await sessionsStore("readonly");
+  return requestResult(store.get(fileId) as IDBRequest<SavedSession | undefined>);
+}
+
+/**
+ * Save the current state of a session, keeping its name and creation date
+ */
+export async function saveSession(snapshot: SessionSnapshot): Promise<SavedSession> {
+  const store = await sessionsStore("readwrite");
+  const existing = await requestResult(store.get(snapshot.fileId) as IDBRequest<SavedSession | undefined>);
+  const now = new Date().toISOString();
+
+  const session: SavedSession = {
+    ...snapshot,
+    name: existing?.name ?? datasetLabel(snapshot.file.filename, snapshot.file.sheet_name),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await requestResult(store.put(session));
+  return session;
+}
+
+/**
+ * Give a saved session a new display name
+ */
+export async function renameSavedSession(fileId: string, name: string): Promise<void> {
+  const store = await sessionsStore("readwrite");
+  const existing = await requestResult(store.get(fileId) as IDBRequest<SavedSession | undefined>);
+  if (!existing) return;
+
+  await requestResult(store.put({ ...existing, name: name.trim() || datasetLabel(existing.file.filename, existing.file.sheet_name) }));
+}
+
+/**
+ * Delete a saved session
+ */
+export async function deleteSavedSession(fileId: string): Promise<void> {
+  const store = await sessionsStore("readwrite");
+  await requestResult(store.delete(fileId));
+}
+
+/**
+ * Serialize a saved session to a JSON document that can be downloaded
+ */
+export async function exportSavedSession(fileId: string): Promise<string> {
+  const session = await getSavedSession(fileId);
+  if (!session) {
+    throw new Error("Saved session not found");
+  }
+
+  return JSON.stringify(
+    {
+      version: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      session,
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,97 @@
+// Browser-side bookkeeping of which datasets are open in the workspace, so a
+// page refresh can reopen them, and of workspace preferences. The sessions
+// themselves live in session-db. Everything is kept per signed-in user.
+
+const ACTIVE_FILE_KEY = "activeFileId";
+const OPEN_FILES_KEY = "openFileIds";
+const SUGGESTION_PACKS_KEY = "suggestionPacks";
+
+let sessionUserId: string | null = null;
+
+/**
+ * Switch the workspace state and saved sessions to those of a signed-in
+ * user, or back to the signed-out ones with null
+ */
+export function setSessionUser(userId: string | null) {
+  sessionUserId = userId;
+}
+
+/**
+ * The user whose workspace state and sessions are in use, if any
+ */
+export function getSessionUser(): string | null {
+  return sessionUserId;
+}
+
+function storageKey(key: string): string {
+  return sessionUserId ? `databot.user.${sessionUserId}.${key}` : `databot.${key}`;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback;
+  try {
+    const raw = window.localStorage.getItem(storageKey(key));
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(storageKey(key), JSON.stringify(value));
+  } catch (err) {
+    // Storage can be full or disabled (private mode) - sessions just won't persist
+    console.error("Failed to save session data:", err);
+  }
+}
+
+/**
+ * Get the file id of the conversation that was open last
+ */
+export function loadActiveFileId(): string | null {
+  return readJson<string | null>(ACTIVE_FILE_KEY, null);
+}
+
+/**
+ * Remember (or forget, with null) the file id of the open conversation
+ */
+export function saveActiveFileId(fileId: string | null) {
+  if (typeof window === "undefined") return;
+  if (fileId) {
+    writeJson(ACTIVE_FILE_KEY, fileId);
+  } else {
+    window.localStorage.removeItem(storageKey(ACTIVE_FILE_KEY));
+  }
+}
+
+/**
+ * Get the file ids of the datasets open in the workspace, in sidebar order
+ */
+export function loadOpenFileIds(): string[] {
+  const fileIds = readJson<string[]>(OPEN_FILES_KEY, []);
+  return Array.isArray(fileIds) ? fileIds : [];
+}
+
+/**
+ * Remember which datasets are open in the workspace
+ */
+export function saveOpenFileIds(fileIds: string[]) {
+  writeJson(OPEN_FILES_KEY, fileIds);
+}
+
+/**
+ * Get the suggestion packs enabled in this workspace, or null if they were never chosen
+ */
+export function loadSuggestionPackIds(): string[] | null {
+  const packIds = readJson<string[] | null>(SUGGESTION_PACKS_KEY, null);
+  return Array.isArray(packIds) ? packIds : null;
+}
+
+/**
+ * Remember which suggestion packs are enabled in this workspace
+ */
+export function saveSuggestionPackIds(packIds: string[]) {
+  writeJson(SUGGESTION_PACKS_KEY, packIds);
+}